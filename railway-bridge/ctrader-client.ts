@@ -61,6 +61,7 @@ export class CTraderClient {
   private ws: WebSocket | null = null;
   private host: string;
   private port: number;
+  private useTls: boolean;
   private appAuthenticated = false;
   private accountAuthenticated = false;
   private messageId = 0;
@@ -90,8 +91,10 @@ export class CTraderClient {
   private reconcileCache: any = null;
 
   constructor(isDemo: boolean, accountId?: string) {
-    this.host = isDemo ? 'demo.ctraderapi.com' : 'live.ctraderapi.com';
-    this.port = 5035;
+    // CTRADER_HOST / CTRADER_PORT / CTRADER_USE_TLS point the client at a local mock server
+    this.host = Deno.env.get('CTRADER_HOST') || (isDemo ? 'demo.ctraderapi.com' : 'live.ctraderapi.com');
+    this.port = parseInt(Deno.env.get('CTRADER_PORT') || '5035', 10);
+    this.useTls = Deno.env.get('CTRADER_USE_TLS') !== 'false';
     this.cacheKey = getGlobalCacheKey(isDemo, accountId || 'unknown');
     
     // ✅ Initialize global cache for this account if it doesn't exist
@@ -121,7 +124,7 @@ export class CTraderClient {
    * Connect to cTrader WebSocket server
    */
   async connect(): Promise<void> {
-    const url = `wss://${this.host}:${this.port}`;
+    const url = `${this.useTls ? 'wss' : 'ws'}://${this.host}:${this.port}`;
     console.log(`[CTraderClient] 🔌 Connecting to ${url}...`);
     console.log(`[CTraderClient] Environment: ${this.host.includes('demo') ? 'DEMO' : 'LIVE'}`);
     
@@ -75,10 +75,13 @@ export class CTraderTcpClient {
   }
   
   async connect(): Promise<void> {
-    const hostname = this.config.endpoint.includes('demo') ? 'demo.ctraderapi.com' : 'live.ctraderapi.com';
-    const port = 5035;
+    // CTRADER_HOST / CTRADER_PORT / CTRADER_USE_TLS point the client at a local mock server
+    const hostname = Deno.env.get('CTRADER_HOST') ||
+      (this.config.endpoint.includes('demo') ? 'demo.ctraderapi.com' : 'live.ctraderapi.com');
+    const port = parseInt(Deno.env.get('CTRADER_PORT') || '5035', 10);
+    const useTls = Deno.env.get('CTRADER_USE_TLS') !== 'false';
     
-    logger.info(`🔌 [${this.userId}] Connecting to cTrader TCP with TLS:`, `${hostname}:${port}`);
+    logger.info(`🔌 [${this.userId}] Connecting to cTrader TCP ${useTls ? 'with' : 'without'} TLS:`, `${hostname}:${port}`);
     logger.info(`🔌 [${this.userId}] Config:`, {
       clientId: this.config.clientId?.substring(0, 10) + '...',
       hasSecret: !!this.config.clientSecret,
@@ -90,7 +93,7 @@ export class CTraderTcpClient {
       try {
         logger.info(`🔌 [${this.userId}] Attempting TLS handshake to ${hostname}:${port}...`);
         
-        const tlsConnectPromise = Deno.connectTls({ hostname, port });
+        const tlsConnectPromise = useTls ? Deno.connectTls({ hostname, port }) : Deno.connect({ hostname, port });
         const tlsTimeoutPromise = new Promise<never>((_, reject) => {
           setTimeout(() => {
             reject(new Error(`TLS handshake timeout after 10s`));
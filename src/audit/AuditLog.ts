@@ -0,0 +1,80 @@
+import { appendFile, mkdir, readFile } from 'fs/promises'
+import { dirname, resolve } from 'path'
+import { config } from '../config'
+import { logger } from '../logger'
+import { SupabaseClient } from '../supabase/SupabaseClient'
+import { AuditRecord } from '../types'
+
+/** Writes trading audit records to Supabase, appending them to a local JSONL file when that fails. */
+export class AuditLog {
+  private supabaseClient: SupabaseClient
+  private fallbackPath: string
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabaseClient = supabaseClient
+    this.fallbackPath = resolve(config.audit.fallbackPath)
+  }
+
+  async record(record: AuditRecord): Promise<void> {
+    try {
+      await this.supabaseClient.insertAuditRecord(record)
+      return
+    } catch (error) {
+      logger.warn({ error, auditId: record.id }, 'Failed to store audit record in Supabase, using local fallback')
+    }
+
+    try {
+      await mkdir(dirname(this.fallbackPath), { recursive: true })
+      await appendFile(this.fallbackPath, JSON.stringify(record) + '\n')
+    } catch (error) {
+      logger.error({ error, record }, 'Failed to write audit record')
+    }
+  }
+
+  async query(userId: string, limit: number, since?: Date): Promise<AuditRecord[]> {
+    const [stored, local] = await Promise.all([
+      this.supabaseClient.getAuditRecords(userId, limit, since).catch((error) => {
+        logger.warn({ error, userId }, 'Failed to read audit records from Supabase')
+        return []
+      }),
+      this.readFallback(userId, since),
+    ])
+
+    const records = new Map<string, AuditRecord>()
+    for (const record of [...stored, ...local]) {
+      records.set(record.id, record)
+    }
+
+    return Array.from(records.values())
+      .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt))
+      .slice(0, limit)
+  }
+
+  private async readFallback(userId: string, since?: Date): Promise<AuditRecord[]> {
+    let contents: string
+    try {
+      contents = await readFile(this.fallbackPath, 'utf8')
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error({ error, path: this.fallbackPath }, 'Failed to read audit fallback file')
+      }
+      return []
+    }
+
+    const records: AuditRecord[] = []
+    for (const line of contents.split('\n')) {
+      if (!line) continue
+
+      try {
+        const record: AuditRecord = JSON.parse(line)
+        if (record.userId === userId && (!since || new Date(record.requestedAt) >= since)) {
+          records.push(record)
+        }
+      } catch {
+        logger.warn({ path: this.fallbackPath }, 'Skipping malformed audit fallback line')
+      }
+    }
+
+    return records
+  }
+}
@@ -0,0 +1,17 @@
+export type BackplaneListener = (message: string) => void
+
+/**
+ * Pub/sub and key ownership shared by every bridge instance. Messages on a channel are
+ * delivered in publish order to every instance subscribed to it.
+ */
+export interface Backplane {
+  connect(): Promise<void>
+  publish(channel: string, message: string): Promise<void>
+  subscribe(channel: string, listener: BackplaneListener): Promise<void>
+  unsubscribe(channel: string): Promise<void>
+  /** Takes or renews `key` for `owner` unless someone else holds it, and returns the holder. */
+  claim(key: string, owner: string, ttlMs: number): Promise<string>
+  holder(key: string): Promise<string | null>
+  release(key: string, owner: string): Promise<void>
+  close(): Promise<void>
+}
@@ -0,0 +1,134 @@
+import { config } from '../config'
+import { logger } from '../logger'
+import { Backplane } from './Backplane'
+
+interface RpcRequest {
+  id?: string
+  replyTo?: string
+  method: string
+  args: unknown[]
+}
+
+interface RpcReply {
+  id: string
+  result?: unknown
+  error?: string
+}
+
+interface PendingCall {
+  resolve: (result: any) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+export type RpcHandler = (method: string, args: unknown[]) => unknown
+
+/** Request/reply calls between bridge instances, with replies routed to each caller's own channel. */
+export class BackplaneRpc {
+  private backplane: Backplane
+  private replyChannel: string
+  private pending: Map<string, PendingCall> = new Map()
+  private callCounter = 0
+
+  constructor(backplane: Backplane, replyChannel: string) {
+    this.backplane = backplane
+    this.replyChannel = replyChannel
+  }
+
+  async start(): Promise<void> {
+    await this.backplane.subscribe(this.replyChannel, message => this.handleReply(message))
+  }
+
+  call<T>(channel: string, method: string, args: unknown[] = []): Promise<T> {
+    this.callCounter++
+    const id = String(this.callCounter)
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id)
+        reject(new Error(`Backplane call ${method} timed out`))
+      }, config.backplane.rpcTimeoutMs)
+
+      this.pending.set(id, { resolve, reject, timer })
+
+      const request: RpcRequest = { id, replyTo: this.replyChannel, method, args }
+      this.backplane.publish(channel, JSON.stringify(request)).catch((error) => {
+        clearTimeout(timer)
+        this.pending.delete(id)
+        reject(error)
+      })
+    })
+  }
+
+  async notify(channel: string, method: string, args: unknown[] = []): Promise<void> {
+    const request: RpcRequest = { method, args }
+    await this.backplane.publish(channel, JSON.stringify(request))
+  }
+
+  async serve(channel: string, handler: RpcHandler): Promise<void> {
+    await this.backplane.subscribe(channel, message => {
+      this.handleRequest(message, handler)
+    })
+  }
+
+  async stop(): Promise<void> {
+    for (const [id, call] of this.pending.entries()) {
+      clearTimeout(call.timer)
+      call.reject(new Error('Backplane stopped'))
+      this.pending.delete(id)
+    }
+
+    await this.backplane.unsubscribe(this.replyChannel)
+  }
+
+  private async handleRequest(message: string, handler: RpcHandler): Promise<void> {
+    let request: RpcRequest
+    try {
+      request = JSON.parse(message)
+    } catch (error) {
+      logger.warn({ error }, 'Discarding malformed backplane request')
+      return
+    }
+
+    let reply: RpcReply | null = null
+    try {
+      const result = await handler(request.method, request.args || [])
+      reply = request.id ? { id: request.id, result } : null
+    } catch (error) {
+      logger.warn({ error, method: request.method }, 'Backplane request failed')
+      reply = request.id ? { id: request.id, error: error instanceof Error ? error.message : String(error) } : null
+    }
+
+    if (!reply || !request.replyTo) {
+      return
+    }
+
+    this.backplane.publish(request.replyTo, JSON.stringify(reply)).catch((error) => {
+      logger.error({ error, method: request.method }, 'Failed to send backplane reply')
+    })
+  }
+
+  private handleReply(message: string): void {
+    let reply: RpcReply
+    try {
+      reply = JSON.parse(message)
+    } catch (error) {
+      logger.warn({ error }, 'Discarding malformed backplane reply')
+      return
+    }
+
+    const call = this.pending.get(reply.id)
+    if (!call) {
+      return
+    }
+
+    clearTimeout(call.timer)
+    this.pending.delete(reply.id)
+
+    if (reply.error !== undefined) {
+      call.reject(new Error(reply.error))
+    } else {
+      call.resolve(reply.result)
+    }
+  }
+}
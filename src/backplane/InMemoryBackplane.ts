@@ -0,0 +1,87 @@
+import { Backplane, BackplaneListener } from './Backplane'
+
+/** State shared by every InMemoryBackplane attached to it, standing in for a broker. */
+export class InMemoryHub {
+  readonly channels: Map<string, Set<BackplaneListener>> = new Map()
+  readonly keys: Map<string, { value: string; expiresAt: number }> = new Map()
+
+  read(key: string): string | null {
+    const entry = this.keys.get(key)
+    if (!entry) {
+      return null
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.keys.delete(key)
+      return null
+    }
+
+    return entry.value
+  }
+}
+
+const defaultHub = new InMemoryHub()
+
+export class InMemoryBackplane implements Backplane {
+  private hub: InMemoryHub
+  private listeners: Map<string, BackplaneListener> = new Map()
+
+  constructor(hub: InMemoryHub = defaultHub) {
+    this.hub = hub
+  }
+
+  async connect(): Promise<void> {}
+
+  async publish(channel: string, message: string): Promise<void> {
+    const listeners = Array.from(this.hub.channels.get(channel) || [])
+    setImmediate(() => listeners.forEach(listener => listener(message)))
+  }
+
+  async subscribe(channel: string, listener: BackplaneListener): Promise<void> {
+    await this.unsubscribe(channel)
+
+    const listeners = this.hub.channels.get(channel) || new Set()
+    listeners.add(listener)
+    this.hub.channels.set(channel, listeners)
+    this.listeners.set(channel, listener)
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    const listener = this.listeners.get(channel)
+    if (!listener) {
+      return
+    }
+
+    this.listeners.delete(channel)
+    const listeners = this.hub.channels.get(channel)
+    listeners?.delete(listener)
+    if (listeners?.size === 0) {
+      this.hub.channels.delete(channel)
+    }
+  }
+
+  async claim(key: string, owner: string, ttlMs: number): Promise<string> {
+    const current = this.hub.read(key)
+    if (current === null || current === owner) {
+      this.hub.keys.set(key, { value: owner, expiresAt: Date.now() + ttlMs })
+      return owner
+    }
+    return current
+  }
+
+  async holder(key: string): Promise<string | null> {
+    return this.hub.read(key)
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    if (this.hub.read(key) === owner) {
+      this.hub.keys.delete(key)
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const channel of Array.from(this.listeners.keys())) {
+      await this.unsubscribe(channel)
+    }
+  }
+}
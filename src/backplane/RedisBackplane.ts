@@ -0,0 +1,329 @@
+import { Socket, connect as connectSocket } from 'net'
+import { config } from '../config'
+import { logger } from '../logger'
+import { Backplane, BackplaneListener } from './Backplane'
+
+type RespValue = string | number | null | Error | RespValue[]
+
+interface PendingReply {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+}
+
+const CLAIM_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or current == ARGV[1] then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return ARGV[1]
+end
+return current`
+
+const RELEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0`
+
+function encodeCommand(args: (string | number)[]): Buffer {
+  const parts = args.map(arg => {
+    const value = Buffer.from(String(arg))
+    return Buffer.concat([Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n')])
+  })
+  return Buffer.concat([Buffer.from(`*${args.length}\r\n`), ...parts])
+}
+
+function parseLength(line: string): number {
+  const length = Number(line)
+  if (!Number.isInteger(length)) {
+    throw new Error(`Malformed Redis reply length: ${line}`)
+  }
+  return length
+}
+
+function parseReply(buffer: Buffer, offset: number): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) {
+    return null
+  }
+
+  const prefix = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (prefix) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new Error(line), offset: next }
+    case ':':
+      return { value: Number(line), offset: next }
+    case '$': {
+      const length = parseLength(line)
+      if (length < 0) {
+        return { value: null, offset: next }
+      }
+      if (buffer.length < next + length + 2) {
+        return null
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = parseLength(line)
+      if (count < 0) {
+        return { value: null, offset: next }
+      }
+
+      const items: RespValue[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) {
+          return null
+        }
+        items.push(item.value)
+        position = item.offset
+      }
+      return { value: items, offset: position }
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type: ${prefix}`)
+  }
+}
+
+class RedisConnection {
+  private url: URL
+  private name: string
+  private socket: Socket | null = null
+  private buffer: Buffer = Buffer.alloc(0)
+  private pending: PendingReply[] = []
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private closing = false
+  onMessage: ((channel: string, message: string) => void) | null = null
+  onReady: (() => void) | null = null
+
+  constructor(url: URL, name: string) {
+    this.url = url
+    this.name = name
+  }
+
+  connect(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = connectSocket(Number(this.url.port) || 6379, this.url.hostname)
+      this.socket = socket
+      this.buffer = Buffer.alloc(0)
+
+      socket.once('connect', () => {
+        this.prepare()
+          .then(() => {
+            logger.info({ connection: this.name, host: this.url.host }, 'Connected to Redis backplane')
+            this.onReady?.()
+            resolve()
+          })
+          .catch(reject)
+      })
+
+      socket.on('data', (data: Buffer) => this.handleData(data))
+
+      socket.on('error', (error: Error) => {
+        logger.error({ error, connection: this.name }, 'Redis backplane socket error')
+        reject(error)
+      })
+
+      socket.on('close', () => {
+        if (this.socket === socket) {
+          this.socket = null
+        }
+        this.failPending(new Error('Redis backplane connection closed'))
+
+        if (!this.closing) {
+          this.scheduleReconnect()
+        }
+      })
+    })
+  }
+
+  command(args: (string | number)[]): Promise<RespValue> {
+    const socket = this.socket
+    if (!socket || socket.connecting || socket.destroyed) {
+      return Promise.reject(new Error('Redis backplane connection unavailable'))
+    }
+
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  async close(): Promise<void> {
+    this.closing = true
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+
+    if (!this.socket) {
+      return
+    }
+
+    await this.command(['QUIT']).catch(() => undefined)
+    this.socket?.destroy()
+    this.socket = null
+  }
+
+  private async prepare(): Promise<void> {
+    const password = decodeURIComponent(this.url.password)
+    const username = decodeURIComponent(this.url.username)
+
+    if (password) {
+      await this.expectOk(username ? ['AUTH', username, password] : ['AUTH', password])
+    }
+
+    const database = this.url.pathname.slice(1)
+    if (database) {
+      await this.expectOk(['SELECT', database])
+    }
+  }
+
+  private async expectOk(args: (string | number)[]): Promise<void> {
+    const reply = await this.command(args)
+    if (reply !== 'OK') {
+      throw new Error(`Redis ${args[0]} failed`)
+    }
+  }
+
+  private handleData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data])
+
+    let offset = 0
+    while (offset < this.buffer.length) {
+      let reply: { value: RespValue; offset: number } | null
+
+      try {
+        reply = parseReply(this.buffer, offset)
+      } catch (error) {
+        logger.error({ error, connection: this.name }, 'Malformed Redis reply, dropping connection')
+        this.buffer = Buffer.alloc(0)
+        this.failPending(error as Error)
+        this.socket?.destroy()
+        return
+      }
+
+      if (!reply) {
+        break
+      }
+      offset = reply.offset
+      this.dispatch(reply.value)
+    }
+
+    this.buffer = this.buffer.subarray(offset)
+  }
+
+  private dispatch(value: RespValue): void {
+    if (Array.isArray(value) && value[0] === 'message' && this.onMessage) {
+      this.onMessage(String(value[1]), String(value[2]))
+      return
+    }
+
+    const pending = this.pending.shift()
+    if (!pending) {
+      logger.warn({ connection: this.name }, 'Unexpected Redis reply')
+      return
+    }
+
+    if (value instanceof Error) {
+      pending.reject(value)
+    } else {
+      pending.resolve(value)
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending
+    this.pending = []
+    pending.forEach(reply => reply.reject(error))
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectTimer) return
+
+    logger.warn(
+      { connection: this.name, delayMs: config.connection.reconnectIntervalMs },
+      'Redis backplane connection lost, reconnecting'
+    )
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      this.connect().catch((error) => {
+        logger.error({ error, connection: this.name }, 'Redis backplane reconnect failed')
+      })
+    }, config.connection.reconnectIntervalMs)
+  }
+}
+
+/** Backplane over the Redis protocol, using one connection for commands and one for subscriptions. */
+export class RedisBackplane implements Backplane {
+  private commands: RedisConnection
+  private subscriber: RedisConnection
+  private listeners: Map<string, BackplaneListener> = new Map()
+
+  constructor(url: string = config.backplane.redisUrl) {
+    const parsed = new URL(url)
+    this.commands = new RedisConnection(parsed, 'commands')
+    this.subscriber = new RedisConnection(parsed, 'subscriber')
+
+    this.subscriber.onMessage = (channel, message) => {
+      this.listeners.get(channel)?.(message)
+    }
+
+    this.subscriber.onReady = () => {
+      for (const channel of this.listeners.keys()) {
+        this.subscriber.command(['SUBSCRIBE', channel]).catch((error) => {
+          logger.error({ error, channel }, 'Failed to restore backplane subscription')
+        })
+      }
+    }
+  }
+
+  async connect(): Promise<void> {
+    await Promise.all([this.commands.connect(), this.subscriber.connect()])
+  }
+
+  async publish(channel: string, message: string): Promise<void> {
+    await this.commands.command(['PUBLISH', channel, message])
+  }
+
+  async subscribe(channel: string, listener: BackplaneListener): Promise<void> {
+    const subscribed = this.listeners.has(channel)
+    this.listeners.set(channel, listener)
+
+    if (!subscribed) {
+      await this.subscriber.command(['SUBSCRIBE', channel])
+    }
+  }
+
+  async unsubscribe(channel: string): Promise<void> {
+    if (!this.listeners.delete(channel)) {
+      return
+    }
+    await this.subscriber.command(['UNSUBSCRIBE', channel])
+  }
+
+  async claim(key: string, owner: string, ttlMs: number): Promise<string> {
+    return String(await this.commands.command(['EVAL', CLAIM_SCRIPT, 1, key, owner, ttlMs]))
+  }
+
+  async holder(key: string): Promise<string | null> {
+    const value = await this.commands.command(['GET', key])
+    return value === null ? null : String(value)
+  }
+
+  async release(key: string, owner: string): Promise<void> {
+    await this.commands.command(['EVAL', RELEASE_SCRIPT, 1, key, owner])
+  }
+
+  async close(): Promise<void> {
+    this.listeners.clear()
+    await Promise.all([this.commands.close(), this.subscriber.close()])
+  }
+}
@@ -0,0 +1,8 @@
+import { config } from '../config'
+import { Backplane } from './Backplane'
+import { InMemoryBackplane } from './InMemoryBackplane'
+import { RedisBackplane } from './RedisBackplane'
+
+export function createBackplane(): Backplane {
+  return config.backplane.driver === 'redis' ? new RedisBackplane() : new InMemoryBackplane()
+}
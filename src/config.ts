@@ -1,5 +1,6 @@
 import { config as dotenvConfig } from 'dotenv'
 import { resolve } from 'path'
+import { hostname } from 'os'
 
 dotenvConfig({ path: resolve(__dirname, '../.env') })
 
@@ -8,29 +9,82 @@ interface Config {
     port: number
     nodeEnv: string
     logLevel: string
+    perMessageDeflate: boolean
+    deflateThresholdBytes: number
+    shutdownDrainTimeoutMs: number
+    shutdownReconnectDelayMs: number
   }
   supabase: {
     url: string
     serviceRoleKey: string
+    jwtSecret: string
+    jwksPath: string
+    jwtAudience: string
+    jwtIssuer: string
+    jwtClockToleranceSec: number
   }
   ctrader: {
     apiHost: string
     apiPort: number
+    useTls: boolean
+    recordingDir: string
   }
   security: {
     apiKey: string
+    /** Guards the /admin routes; they reject every request while it is unset. */
+    adminApiKey: string
     allowedOrigins: string[]
+    /** Addresses of the proxies whose x-forwarded-for header is believed. */
+    trustedProxies: string[]
   }
   connection: {
     maxReconnectAttempts: number
     reconnectIntervalMs: number
     pingIntervalMs: number
     pingTimeoutMs: number
+    requestTimeoutMs: number
+    resumeGracePeriodMs: number
+    resumeBufferSize: number
+    maxAccountsPerClient: number
+    qualityReportIntervalMs: number
   }
   rateLimit: {
     maxConnectionsPerUser: number
     messageRateLimit: number
+    userMessageRateLimit: number
     rateLimitWindowMs: number
+    messageCosts: Record<string, number>
+  }
+  outbound: {
+    maxSpotUpdatesPerSecond: number
+    highWaterMarkBytes: number
+    maxBufferedBytes: number
+    slowConsumerTimeoutMs: number
+    maxQueuedMessages: number
+  }
+  orders: {
+    idempotencyWindowMs: number
+  }
+  audit: {
+    fallbackPath: string
+  }
+  risk: {
+    maxOrderVolume: number
+    maxOpenPositions: number
+    allowedSymbols: number[]
+    deniedSymbols: number[]
+    maxDailyLoss: number
+    requireStopLoss: boolean
+    limitsCacheTtlMs: number
+    limitsMaxStaleMs: number
+  }
+  backplane: {
+    driver: string
+    redisUrl: string
+    keyPrefix: string
+    instanceId: string
+    ownershipTtlMs: number
+    rpcTimeoutMs: number
   }
 }
 
@@ -42,39 +96,126 @@ function getEnvVar(key: string, defaultValue?: string): string {
   return value || defaultValue!
 }
 
+function getOptionalEnvVar(key: string): string {
+  return process.env[key] || ''
+}
+
 function getEnvNumber(key: string, defaultValue: number): number {
   const value = process.env[key]
   return value ? parseInt(value, 10) : defaultValue
 }
 
+function getEnvNumberList(key: string): number[] {
+  return getOptionalEnvVar(key).split(',').filter(Boolean).map(Number).filter(value => !isNaN(value))
+}
+
+function getEnvNumberMap(key: string, defaultValue: Record<string, number>): Record<string, number> {
+  const value = process.env[key]
+  if (!value) {
+    return defaultValue
+  }
+
+  const entries = value.split(',').filter(Boolean).map(pair => {
+    const [name, amount] = pair.split('=').map(part => part.trim())
+    return [name, parseFloat(amount)] as const
+  })
+
+  return { ...defaultValue, ...Object.fromEntries(entries.filter(([, amount]) => !isNaN(amount))) }
+}
+
 export const config: Config = {
   server: {
     port: getEnvNumber('PORT', 8080),
     nodeEnv: getEnvVar('NODE_ENV', 'development'),
     logLevel: getEnvVar('LOG_LEVEL', 'info'),
+    perMessageDeflate: getEnvVar('PER_MESSAGE_DEFLATE', 'true') === 'true',
+    deflateThresholdBytes: getEnvNumber('DEFLATE_THRESHOLD_BYTES', 1024),
+    shutdownDrainTimeoutMs: getEnvNumber('SHUTDOWN_DRAIN_TIMEOUT_MS', 15000),
+    shutdownReconnectDelayMs: getEnvNumber('SHUTDOWN_RECONNECT_DELAY_MS', 5000),
   },
   supabase: {
     url: getEnvVar('SUPABASE_URL'),
     serviceRoleKey: getEnvVar('SUPABASE_SERVICE_ROLE_KEY'),
+    jwtSecret: getOptionalEnvVar('SUPABASE_JWT_SECRET'),
+    jwksPath: getOptionalEnvVar('SUPABASE_JWKS_PATH'),
+    jwtAudience: getEnvVar('SUPABASE_JWT_AUDIENCE', 'authenticated'),
+    jwtIssuer: getOptionalEnvVar('SUPABASE_JWT_ISSUER'),
+    jwtClockToleranceSec: getEnvNumber('JWT_CLOCK_TOLERANCE_SEC', 30),
   },
   ctrader: {
     apiHost: getEnvVar('CTRADER_API_HOST', 'demo.ctraderapi.com'),
     apiPort: getEnvNumber('CTRADER_API_PORT', 5035),
+    useTls: getEnvVar('CTRADER_USE_TLS', 'true') === 'true',
+    recordingDir: getOptionalEnvVar('CTRADER_RECORDING_DIR'),
   },
   security: {
     apiKey: getEnvVar('API_KEY'),
+    adminApiKey: getOptionalEnvVar('ADMIN_API_KEY'),
     allowedOrigins: getEnvVar('ALLOWED_ORIGINS', '').split(',').filter(Boolean),
+    trustedProxies: getOptionalEnvVar('TRUSTED_PROXIES').split(',').map(address => address.trim()).filter(Boolean),
   },
   connection: {
     maxReconnectAttempts: getEnvNumber('MAX_RECONNECT_ATTEMPTS', 10),
     reconnectIntervalMs: getEnvNumber('RECONNECT_INTERVAL_MS', 5000),
     pingIntervalMs: getEnvNumber('PING_INTERVAL_MS', 30000),
     pingTimeoutMs: getEnvNumber('PING_TIMEOUT_MS', 10000),
+    requestTimeoutMs: getEnvNumber('REQUEST_TIMEOUT_MS', 30000),
+    resumeGracePeriodMs: getEnvNumber('RESUME_GRACE_PERIOD_MS', 60000),
+    resumeBufferSize: getEnvNumber('RESUME_BUFFER_SIZE', 500),
+    maxAccountsPerClient: getEnvNumber('MAX_ACCOUNTS_PER_CLIENT', 5),
+    qualityReportIntervalMs: getEnvNumber('CONNECTION_QUALITY_INTERVAL_MS', 15000),
   },
   rateLimit: {
     maxConnectionsPerUser: getEnvNumber('MAX_CONNECTIONS_PER_USER', 5),
     messageRateLimit: getEnvNumber('MESSAGE_RATE_LIMIT', 100),
+    userMessageRateLimit: getEnvNumber('USER_MESSAGE_RATE_LIMIT', 300),
     rateLimitWindowMs: getEnvNumber('RATE_LIMIT_WINDOW_MS', 60000),
+    messageCosts: getEnvNumberMap('RATE_LIMIT_MESSAGE_COSTS', {
+      order: 10,
+      closePosition: 10,
+      amendPosition: 10,
+      cancelOrder: 10,
+      amendOrder: 10,
+      connect: 5,
+      authenticate: 5,
+      resume: 5,
+      subscribe: 2,
+      getAccount: 2,
+      getPositions: 2,
+      getOrders: 2,
+      ping: 0.1,
+    }),
+  },
+  outbound: {
+    maxSpotUpdatesPerSecond: getEnvNumber('MAX_SPOT_UPDATES_PER_SECOND', 10),
+    highWaterMarkBytes: getEnvNumber('OUTBOUND_HIGH_WATER_MARK_BYTES', 256 * 1024),
+    maxBufferedBytes: getEnvNumber('OUTBOUND_MAX_BUFFERED_BYTES', 4 * 1024 * 1024),
+    slowConsumerTimeoutMs: getEnvNumber('SLOW_CONSUMER_TIMEOUT_MS', 10000),
+    maxQueuedMessages: getEnvNumber('OUTBOUND_MAX_QUEUED_MESSAGES', 1000),
+  },
+  orders: {
+    idempotencyWindowMs: getEnvNumber('ORDER_IDEMPOTENCY_WINDOW_MS', 300000),
+  },
+  audit: {
+    fallbackPath: getEnvVar('AUDIT_FALLBACK_PATH', 'audit/trading-audit.jsonl'),
+  },
+  risk: {
+    maxOrderVolume: getEnvNumber('RISK_MAX_ORDER_VOLUME', 0),
+    maxOpenPositions: getEnvNumber('RISK_MAX_OPEN_POSITIONS', 0),
+    allowedSymbols: getEnvNumberList('RISK_ALLOWED_SYMBOLS'),
+    deniedSymbols: getEnvNumberList('RISK_DENIED_SYMBOLS'),
+    maxDailyLoss: getEnvNumber('RISK_MAX_DAILY_LOSS', 0),
+    requireStopLoss: getEnvVar('RISK_REQUIRE_STOP_LOSS', 'false') === 'true',
+    limitsCacheTtlMs: getEnvNumber('RISK_LIMITS_CACHE_TTL_MS', 60000),
+    limitsMaxStaleMs: getEnvNumber('RISK_LIMITS_MAX_STALE_MS', 300000),
+  },
+  backplane: {
+    driver: getEnvVar('BACKPLANE_DRIVER', 'memory'),
+    redisUrl: getEnvVar('BACKPLANE_REDIS_URL', 'redis://127.0.0.1:6379'),
+    keyPrefix: getEnvVar('BACKPLANE_KEY_PREFIX', 'bridge:'),
+    instanceId: getEnvVar('INSTANCE_ID', `${hostname()}-${process.pid}`),
+    ownershipTtlMs: getEnvNumber('SESSION_OWNERSHIP_TTL_MS', 15000),
+    rpcTimeoutMs: getEnvNumber('BACKPLANE_RPC_TIMEOUT_MS', 45000),
   },
 }
 
@@ -97,10 +238,27 @@ export function validateConfig(): void {
     throw new Error('SUPABASE_URL must be a valid URL')
   }
 
+  if (!config.supabase.jwtSecret && !config.supabase.jwksPath) {
+    throw new Error('Either SUPABASE_JWT_SECRET or SUPABASE_JWKS_PATH must be set to verify user tokens')
+  }
+
   if (config.security.apiKey.length < 32) {
     throw new Error('API_KEY must be at least 32 characters long')
   }
 
+  if (config.security.adminApiKey) {
+    if (config.security.adminApiKey.length < 32) {
+      throw new Error('ADMIN_API_KEY must be at least 32 characters long')
+    }
+    if (config.security.adminApiKey === config.security.apiKey) {
+      throw new Error('ADMIN_API_KEY must differ from API_KEY, which browsers can read')
+    }
+  }
+
+  if (!['memory', 'redis'].includes(config.backplane.driver)) {
+    throw new Error('BACKPLANE_DRIVER must be either memory or redis')
+  }
+
   if (config.server.port < 1 || config.server.port > 65535) {
     throw new Error('PORT must be between 1 and 65535')
   }
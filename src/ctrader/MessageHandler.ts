@@ -1,63 +1,23 @@
 import * as protobuf from 'protobufjs'
-import { resolve } from 'path'
 import { logger } from '../logger'
-import { CTraderAccount, Position } from '../types'
+import { loadProtoSchema } from './protoSchema'
+import { CTraderAccount, Position, PendingOrder, OrderPayload, AmendOrderPayload } from '../types'
 
 export class MessageHandler {
-  private root: protobuf.Root | null = null
-  private ProtoOAPayloadType: any
-  private ProtoPayloadType: any
   private ProtoMessage: any
-  private ProtoOAApplicationAuthReq: any
-  private ProtoOAApplicationAuthRes: any
-  private ProtoOAAccountAuthReq: any
-  private ProtoOAAccountAuthRes: any
-  private ProtoOAVersionReq: any
-  private ProtoOAVersionRes: any
-  private ProtoOAExecutionEvent: any
-  private ProtoOASpotEvent: any
-  private ProtoHeartbeatEvent: any
-  private ProtoErrorRes: any
-  private ProtoOAErrorRes: any
-  private ProtoOANewOrderReq: any
-  private ProtoOAClosePositionReq: any
-  private ProtoOAReconcileReq: any
-  private ProtoOAReconcileRes: any
+  private messageTypes: Map<string, protobuf.Type> = new Map()
+  private payloadTypeIds: Map<string, number> = new Map()
+  private payloadTypeNames: Map<number, string> = new Map()
 
   async initialize(): Promise<void> {
     try {
-      const protoPath = resolve(__dirname, './proto')
-      
-      this.root = new protobuf.Root()
-      
-      // Load proto files in correct dependency order
-      await this.root.load([
-        resolve(protoPath, 'OpenApiCommonModelMessages.proto'),
-        resolve(protoPath, 'OpenApiModelMessages.proto'),
-        resolve(protoPath, 'OpenApiCommonMessages.proto'),
-        resolve(protoPath, 'OpenApiMessages.proto'),
-      ])
-
-      this.ProtoPayloadType = this.root.lookupEnum('ProtoPayloadType')
-      this.ProtoOAPayloadType = this.root.lookupEnum('ProtoOAPayloadType')
-      this.ProtoMessage = this.root.lookupType('ProtoMessage')
-      this.ProtoOAApplicationAuthReq = this.root.lookupType('ProtoOAApplicationAuthReq')
-      this.ProtoOAApplicationAuthRes = this.root.lookupType('ProtoOAApplicationAuthRes')
-      this.ProtoOAAccountAuthReq = this.root.lookupType('ProtoOAAccountAuthReq')
-      this.ProtoOAAccountAuthRes = this.root.lookupType('ProtoOAAccountAuthRes')
-      this.ProtoOAVersionReq = this.root.lookupType('ProtoOAVersionReq')
-      this.ProtoOAVersionRes = this.root.lookupType('ProtoOAVersionRes')
-      this.ProtoOAExecutionEvent = this.root.lookupType('ProtoOAExecutionEvent')
-      this.ProtoOASpotEvent = this.root.lookupType('ProtoOASpotEvent')
-      this.ProtoHeartbeatEvent = this.root.lookupType('ProtoHeartbeatEvent')
-      this.ProtoErrorRes = this.root.lookupType('ProtoErrorRes')
-      this.ProtoOAErrorRes = this.root.lookupType('ProtoOAErrorRes')
-      this.ProtoOANewOrderReq = this.root.lookupType('ProtoOANewOrderReq')
-      this.ProtoOAClosePositionReq = this.root.lookupType('ProtoOAClosePositionReq')
-      this.ProtoOAReconcileReq = this.root.lookupType('ProtoOAReconcileReq')
-      this.ProtoOAReconcileRes = this.root.lookupType('ProtoOAReconcileRes')
-
-      logger.info('Protobuf messages initialized successfully')
+      const schema = await loadProtoSchema()
+      this.ProtoMessage = schema.ProtoMessage
+      this.messageTypes = schema.messageTypes
+      this.payloadTypeIds = schema.payloadTypeIds
+      this.payloadTypeNames = schema.payloadTypeNames
+
+      logger.info({ messageTypes: this.messageTypes.size }, 'Protobuf messages initialized successfully')
     } catch (error) {
       logger.error({ error }, 'Failed to initialize protobuf messages')
       throw new Error('Protobuf initialization failed')
@@ -65,254 +25,203 @@ export class MessageHandler {
   }
 
   createApplicationAuthRequest(clientId: string, clientSecret: string): Buffer {
-    const payload = this.ProtoOAApplicationAuthReq.create({
-      clientId,
-      clientSecret,
-    })
-
-    const payloadBytes = this.ProtoOAApplicationAuthReq.encode(payload).finish()
-
-    const message = this.ProtoMessage.create({
-      payloadType: this.ProtoOAPayloadType.values.PROTO_OA_APPLICATION_AUTH_REQ,
-      payload: payloadBytes,
-    })
-
-    const messageBytes = this.ProtoMessage.encode(message).finish()
-    
-    const lengthBuffer = Buffer.allocUnsafe(4)
-    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
-    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+    return this.createRequest('PROTO_OA_APPLICATION_AUTH_REQ', { clientId, clientSecret })
   }
 
   createAccountAuthRequest(accessToken: string, ctidTraderAccountId: string): Buffer {
-    const payload = this.ProtoOAAccountAuthReq.create({
-      accessToken,
-      ctidTraderAccountId,
-    })
-
-    const payloadBytes = this.ProtoOAAccountAuthReq.encode(payload).finish()
-
-    const message = this.ProtoMessage.create({
-      payloadType: this.ProtoOAPayloadType.values.PROTO_OA_ACCOUNT_AUTH_REQ,
-      payload: payloadBytes,
-    })
-
-    const messageBytes = this.ProtoMessage.encode(message).finish()
-    
-    const lengthBuffer = Buffer.allocUnsafe(4)
-    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
-    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+    return this.createRequest('PROTO_OA_ACCOUNT_AUTH_REQ', { accessToken, ctidTraderAccountId })
   }
 
   createVersionRequest(): Buffer {
-    const payload = this.ProtoOAVersionReq.create({})
-    const payloadBytes = this.ProtoOAVersionReq.encode(payload).finish()
-
-    const message = this.ProtoMessage.create({
-      payloadType: this.ProtoOAPayloadType.values.PROTO_OA_VERSION_REQ,
-      payload: payloadBytes,
-    })
-
-    const messageBytes = this.ProtoMessage.encode(message).finish()
-    
-    const lengthBuffer = Buffer.allocUnsafe(4)
-    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
-    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+    return this.createRequest('PROTO_OA_VERSION_REQ', {})
   }
 
   createHeartbeatEvent(): Buffer {
-    const payload = this.ProtoHeartbeatEvent.create({})
-    const payloadBytes = this.ProtoHeartbeatEvent.encode(payload).finish()
-
-    const message = this.ProtoMessage.create({
-      payloadType: this.ProtoPayloadType.values.HEARTBEAT_EVENT,
-      payload: payloadBytes,
-    })
-
-    const messageBytes = this.ProtoMessage.encode(message).finish()
-    
-    const lengthBuffer = Buffer.allocUnsafe(4)
-    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
-    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+    return this.createRequest('HEARTBEAT_EVENT', {})
   }
 
-  createReconcileRequest(ctidTraderAccountId: string): Buffer {
-    const payload = this.ProtoOAReconcileReq.create({
-      ctidTraderAccountId,
-    })
-
-    const payloadBytes = this.ProtoOAReconcileReq.encode(payload).finish()
+  createReconcileRequest(ctidTraderAccountId: string, clientMsgId?: string): Buffer {
+    return this.createRequest('PROTO_OA_RECONCILE_REQ', { ctidTraderAccountId }, clientMsgId)
+  }
 
-    const message = this.ProtoMessage.create({
-      payloadType: this.ProtoOAPayloadType.values.PROTO_OA_RECONCILE_REQ,
-      payload: payloadBytes,
-    })
+  createTraderRequest(ctidTraderAccountId: string, clientMsgId?: string): Buffer {
+    return this.createRequest('PROTO_OA_TRADER_REQ', { ctidTraderAccountId }, clientMsgId)
+  }
 
-    const messageBytes = this.ProtoMessage.encode(message).finish()
-    
-    const lengthBuffer = Buffer.allocUnsafe(4)
-    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
-    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+  createDealListRequest(
+    ctidTraderAccountId: string,
+    fromTimestamp: number,
+    toTimestamp: number,
+    clientMsgId?: string
+  ): Buffer {
+    return this.createRequest('PROTO_OA_DEAL_LIST_REQ', { ctidTraderAccountId, fromTimestamp, toTimestamp }, clientMsgId)
   }
 
   createNewOrderRequest(
     ctidTraderAccountId: string,
-    symbolId: number,
-    orderType: number,
-    tradeSide: number,
-    volume: number,
-    stopLoss?: number,
-    takeProfit?: number,
-    comment?: string
+    order: Omit<OrderPayload, 'accountId'>,
+    clientMsgId?: string
   ): Buffer {
-    const payload = this.ProtoOANewOrderReq.create({
+    return this.createRequest('PROTO_OA_NEW_ORDER_REQ', {
       ctidTraderAccountId,
-      symbolId,
-      orderType,
-      tradeSide,
-      volume,
-      stopLoss,
-      takeProfit,
-      comment,
-    })
+      ...order,
+      label: order.clientOrderId,
+    }, clientMsgId)
+  }
 
-    const payloadBytes = this.ProtoOANewOrderReq.encode(payload).finish()
+  createClosePositionRequest(
+    ctidTraderAccountId: string,
+    positionId: string,
+    volume: number,
+    clientMsgId?: string
+  ): Buffer {
+    return this.createRequest('PROTO_OA_CLOSE_POSITION_REQ', { ctidTraderAccountId, positionId, volume }, clientMsgId)
+  }
 
-    const message = this.ProtoMessage.create({
-      payloadType: this.ProtoOAPayloadType.values.PROTO_OA_NEW_ORDER_REQ,
-      payload: payloadBytes,
-    })
+  createAmendPositionRequest(
+    ctidTraderAccountId: string,
+    positionId: string,
+    stopLoss?: number,
+    takeProfit?: number,
+    clientMsgId?: string
+  ): Buffer {
+    return this.createRequest(
+      'PROTO_OA_AMEND_POSITION_SLTP_REQ',
+      { ctidTraderAccountId, positionId, stopLoss, takeProfit },
+      clientMsgId
+    )
+  }
 
-    const messageBytes = this.ProtoMessage.encode(message).finish()
-    
-    const lengthBuffer = Buffer.allocUnsafe(4)
-    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
-    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+  createCancelOrderRequest(ctidTraderAccountId: string, orderId: string, clientMsgId?: string): Buffer {
+    return this.createRequest('PROTO_OA_CANCEL_ORDER_REQ', { ctidTraderAccountId, orderId }, clientMsgId)
   }
 
-  createClosePositionRequest(
+  createAmendOrderRequest(
     ctidTraderAccountId: string,
-    positionId: string,
-    volume: number
+    orderId: string,
+    changes: Omit<AmendOrderPayload, 'orderId'>,
+    clientMsgId?: string
   ): Buffer {
-    const payload = this.ProtoOAClosePositionReq.create({
-      ctidTraderAccountId,
-      positionId,
-      volume,
-    })
+    return this.createRequest('PROTO_OA_AMEND_ORDER_REQ', { ctidTraderAccountId, orderId, ...changes }, clientMsgId)
+  }
+
+  createSubscribeSpotsRequest(ctidTraderAccountId: string, symbolIds: number[]): Buffer {
+    return this.createRequest('PROTO_OA_SUBSCRIBE_SPOTS_REQ', { ctidTraderAccountId, symbolId: symbolIds })
+  }
+
+  createUnsubscribeSpotsRequest(ctidTraderAccountId: string, symbolIds: number[]): Buffer {
+    return this.createRequest('PROTO_OA_UNSUBSCRIBE_SPOTS_REQ', { ctidTraderAccountId, symbolId: symbolIds })
+  }
+
+  /** Encodes any message by payload type name, e.g. `PROTO_OA_SYMBOLS_LIST_REQ`, from a plain object. */
+  createRequest(payloadTypeName: string, payload: Record<string, unknown>, clientMsgId?: string): Buffer {
+    const type = this.messageTypes.get(payloadTypeName)
+    const payloadType = this.payloadTypeIds.get(payloadTypeName)
+    if (!type || payloadType === undefined) {
+      throw new Error(`Unknown payload type ${payloadTypeName}`)
+    }
 
-    const payloadBytes = this.ProtoOAClosePositionReq.encode(payload).finish()
+    const payloadBytes = type.encode(type.fromObject(payload)).finish()
 
     const message = this.ProtoMessage.create({
-      payloadType: this.ProtoOAPayloadType.values.PROTO_OA_CLOSE_POSITION_REQ,
+      payloadType,
       payload: payloadBytes,
+      clientMsgId,
     })
 
     const messageBytes = this.ProtoMessage.encode(message).finish()
-    
+
     const lengthBuffer = Buffer.allocUnsafe(4)
     lengthBuffer.writeUInt32BE(messageBytes.length, 0)
-    
+
     return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
   }
 
-  decodeMessage(data: Buffer): { type: string; payload: any } | null {
+  /**
+   * Decodes any framed ProtoMessage. Payload types without a message definition come back with the raw
+   * bytes as `{ payloadType, data }` (base64) so callers can still surface them.
+   */
+  decodeMessage(data: Buffer): { type: string; payload: any; clientMsgId?: string } | null {
     try {
       const messageBytes = data.length > 4 ? data.slice(4) : data
 
       const message = this.ProtoMessage.decode(messageBytes)
       const payloadTypeName = this.getPayloadTypeName(message.payloadType)
-
-      if (!payloadTypeName) {
-        logger.warn({ payloadType: message.payloadType }, 'Unknown payload type')
-        return null
+      const clientMsgId: string | undefined = message.clientMsgId || undefined
+      const type = payloadTypeName ? this.messageTypes.get(payloadTypeName) : undefined
+
+      if (!type) {
+        logger.warn({ payloadType: message.payloadType, payloadTypeName }, 'No message definition for payload type')
+        return {
+          type: payloadTypeName || `UNKNOWN_PAYLOAD_TYPE_${message.payloadType}`,
+          payload: {
+            payloadType: message.payloadType,
+            data: Buffer.from(message.payload || []).toString('base64'),
+          },
+          clientMsgId,
+        }
       }
 
-      let decodedPayload: any = null
-
-      switch (payloadTypeName) {
-        case 'PROTO_OA_APPLICATION_AUTH_RES':
-          decodedPayload = this.ProtoOAApplicationAuthRes.decode(message.payload)
-          break
-        case 'PROTO_OA_ACCOUNT_AUTH_RES':
-          decodedPayload = this.ProtoOAAccountAuthRes.decode(message.payload)
-          break
-        case 'PROTO_OA_VERSION_RES':
-          decodedPayload = this.ProtoOAVersionRes.decode(message.payload)
-          break
-        case 'PROTO_OA_EXECUTION_EVENT':
-          decodedPayload = this.ProtoOAExecutionEvent.decode(message.payload)
-          break
-        case 'PROTO_OA_SPOT_EVENT':
-          decodedPayload = this.ProtoOASpotEvent.decode(message.payload)
-          break
-        case 'HEARTBEAT_EVENT':
-          decodedPayload = this.ProtoHeartbeatEvent.decode(message.payload)
-          break
-        case 'ERROR_RES':
-          decodedPayload = this.ProtoErrorRes.decode(message.payload)
-          break
-        case 'PROTO_OA_ERROR_RES':
-          decodedPayload = this.ProtoOAErrorRes.decode(message.payload)
-          break
-        case 'PROTO_OA_RECONCILE_RES':
-          decodedPayload = this.ProtoOAReconcileRes.decode(message.payload)
-          break
-        default:
-          logger.debug({ payloadTypeName }, 'Unhandled message type')
-          return { type: payloadTypeName, payload: message.payload }
+      return {
+        type: payloadTypeName!,
+        payload: type.decode(message.payload || Buffer.alloc(0)).toJSON(),
+        clientMsgId,
       }
+    } catch (error) {
+      logger.error({ error }, 'Failed to decode message')
+      return null
+    }
+  }
 
+  readFrameHeader(data: Buffer): { payloadType: number; type: string | null; clientMsgId?: string } | null {
+    try {
+      const message = this.ProtoMessage.decode(data.length > 4 ? data.slice(4) : data)
       return {
-        type: payloadTypeName,
-        payload: decodedPayload ? decodedPayload.toJSON() : null,
+        payloadType: message.payloadType,
+        type: this.getPayloadTypeName(message.payloadType),
+        clientMsgId: message.clientMsgId || undefined,
       }
     } catch (error) {
-      logger.error({ error }, 'Failed to decode message')
+      logger.error({ error }, 'Failed to read message header')
       return null
     }
   }
 
+  withClientMsgId(data: Buffer, clientMsgId: string): Buffer {
+    const message = this.ProtoMessage.decode(data.length > 4 ? data.slice(4) : data)
+    message.clientMsgId = clientMsgId
+
+    const messageBytes = this.ProtoMessage.encode(message).finish()
+
+    const lengthBuffer = Buffer.allocUnsafe(4)
+    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
+
+    return Buffer.concat([lengthBuffer, Buffer.from(messageBytes)])
+  }
+
   private getPayloadTypeName(payloadType: number): string | null {
-    // Check ProtoOAPayloadType first
-    let entry = Object.entries(this.ProtoOAPayloadType.values).find(
-      ([_, value]) => value === payloadType
-    )
-    
-    if (entry) return entry[0]
-    
-    // Then check ProtoPayloadType
-    entry = Object.entries(this.ProtoPayloadType.values).find(
-      ([_, value]) => value === payloadType
-    )
-    
-    return entry ? entry[0] : null
+    return this.payloadTypeNames.get(payloadType) ?? null
   }
 
-  extractAccountInfo(reconcileRes: any): CTraderAccount | null {
+  extractAccountInfo(traderRes: any): CTraderAccount | null {
     try {
-      if (!reconcileRes.trader) {
+      if (!traderRes.trader) {
         return null
       }
 
-      const trader = reconcileRes.trader
+      const trader = traderRes.trader
+      const balance = toMoney(trader.balance, trader.moneyDigits)
       
       return {
         accountId: trader.ctidTraderAccountId?.toString() || '',
-        balance: trader.balance / 100,
-        equity: trader.balance / 100,
+        balance,
+        equity: balance,
         margin: 0,
-        freeMargin: trader.balance / 100,
+        freeMargin: balance,
         marginLevel: 0,
         currency: 'USD',
         leverage: trader.leverageInCents ? trader.leverageInCents / 100 : 100,
-        broker: 'ctrader',
+        broker: trader.brokerName || 'ctrader',
         environment: trader.isLive ? 'live' : 'demo',
       }
     } catch (error) {
@@ -330,20 +239,79 @@ export class MessageHandler {
       return reconcileRes.position.map((pos: any) => ({
         positionId: pos.positionId?.toString() || '',
         symbol: pos.tradeData?.symbolId?.toString() || '',
-        volume: pos.tradeData?.volume || 0,
-        entryPrice: pos.price / 100000,
-        currentPrice: pos.price / 100000,
-        profit: (pos.grossProfit || 0) / 100,
-        swap: (pos.swap || 0) / 100,
-        commission: (pos.commission || 0) / 100,
-        side: pos.tradeData?.tradeSide === 1 ? 'buy' : 'sell',
-        openTime: new Date(pos.tradeData?.openTimestamp || Date.now()),
-        stopLoss: pos.stopLoss ? pos.stopLoss / 100000 : undefined,
-        takeProfit: pos.takeProfit ? pos.takeProfit / 100000 : undefined,
+        volume: Number(pos.tradeData?.volume || 0),
+        entryPrice: pos.price || 0,
+        currentPrice: pos.price || 0,
+        swap: toMoney(pos.swap, pos.moneyDigits),
+        commission: toMoney(pos.commission, pos.moneyDigits),
+        side: toSide(pos.tradeData?.tradeSide),
+        openTime: new Date(Number(pos.tradeData?.openTimestamp) || Date.now()),
+        stopLoss: pos.stopLoss || undefined,
+        takeProfit: pos.takeProfit || undefined,
       }))
     } catch (error) {
       logger.error({ error }, 'Failed to extract positions')
       return []
     }
   }
+
+  extractOrders(reconcileRes: any): PendingOrder[] {
+    try {
+      if (!reconcileRes.order || reconcileRes.order.length === 0) {
+        return []
+      }
+
+      return reconcileRes.order.map((order: any) => ({
+        orderId: order.orderId?.toString() || '',
+        positionId: order.positionId?.toString(),
+        symbol: order.tradeData?.symbolId?.toString() || '',
+        orderType: order.orderType,
+        status: order.orderStatus,
+        side: toSide(order.tradeData?.tradeSide),
+        volume: Number(order.tradeData?.volume || 0),
+        limitPrice: order.limitPrice,
+        stopPrice: order.stopPrice,
+        stopLoss: order.stopLoss,
+        takeProfit: order.takeProfit,
+        timeInForce: order.timeInForce,
+        expiresAt: order.expirationTimestamp ? new Date(Number(order.expirationTimestamp)) : undefined,
+        createdAt: new Date(Number(order.tradeData?.openTimestamp) || Date.now()),
+        label: order.tradeData?.label,
+        comment: order.tradeData?.comment,
+        clientOrderId: order.clientOrderId,
+      }))
+    } catch (error) {
+      logger.error({ error }, 'Failed to extract orders')
+      return []
+    }
+  }
+
+  extractRealizedPnl(dealListRes: any): number {
+    try {
+      return (dealListRes.deal || []).reduce((total: number, deal: any) => {
+        const detail = deal.closePositionDetail
+        if (!detail) {
+          return total
+        }
+
+        const net = Number(detail.grossProfit || 0) +
+          Number(detail.swap || 0) +
+          Number(detail.commission || 0) +
+          Number(detail.pnlConversionFee || 0)
+
+        return total + toMoney(net, detail.moneyDigits)
+      }, 0)
+    } catch (error) {
+      logger.error({ error }, 'Failed to extract realized profit and loss')
+      return 0
+    }
+  }
+}
+
+function toMoney(value: string | number | undefined, moneyDigits?: number): number {
+  return Number(value || 0) / 10 ** (moneyDigits ?? 2)
+}
+
+function toSide(tradeSide: string | number | undefined): 'buy' | 'sell' {
+  return tradeSide === 'BUY' || tradeSide === 1 ? 'buy' : 'sell'
 }
@@ -1,19 +1,35 @@
-import WebSocket from 'ws'
 import { EventEmitter } from 'events'
 import { config } from '../config'
 import { logger } from '../logger'
+import { metrics } from '../metrics'
 import { MessageHandler } from './MessageHandler'
-import { UserCredentials, CTraderAccount, Position } from '../types'
+import { Transport } from './transport/Transport'
+import { WebSocketTransport } from './transport/WebSocketTransport'
+import { SessionRecorder } from './transport/SessionRecorder'
+import {
+  UserCredentials,
+  CTraderAccount,
+  Position,
+  PendingOrder,
+  OrderResult,
+  OrderPayload,
+  AmendOrderPayload,
+  ProtoPayload,
+} from '../types'
 
 export interface ProtoOAClientEvents {
   connected: () => void
   authenticated: () => void
   accountAuthorized: (account: CTraderAccount) => void
   positionUpdate: (positions: Position[]) => void
-  executionEvent: (event: any) => void
-  spotEvent: (event: any) => void
+  executionEvent: (event: ProtoPayload, clientMsgId?: string) => void
+  orderError: (event: ProtoPayload, clientMsgId?: string) => void
+  spotEvent: (event: ProtoPayload) => void
+  rawEvent: (type: string, payload: ProtoPayload, clientMsgId?: string) => void
   error: (error: Error) => void
   disconnected: (code: number, reason: string) => void
+  /** Reconnect attempts are exhausted; the client stays disconnected until connect() is called again. */
+  reconnectFailed: () => void
 }
 
 export declare interface ProtoOAClient {
@@ -27,38 +43,115 @@ export declare interface ProtoOAClient {
   ): boolean
 }
 
+interface InFlightOrder {
+  operation: string
+  startedAt: number
+  terminalTypes: TerminalExecutions
+  resolve: (result: OrderResult) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+type TerminalExecutions = Partial<Record<string, OrderResult['status']>>
+
+interface PendingQuery {
+  responseType?: string
+  resolve: (response: ProtoResponse) => void
+  reject: (error: Error) => void
+  timer: NodeJS.Timeout
+}
+
+const MARKET_ORDER_TYPES = [1, 5, 'MARKET', 'MARKET_RANGE']
+const FILLED_EXECUTIONS: TerminalExecutions = { ORDER_FILLED: 'filled', ORDER_PARTIAL_FILL: 'filled' }
+const PENDING_ORDER_EXECUTIONS: TerminalExecutions = { ORDER_ACCEPTED: 'accepted', ...FILLED_EXECUTIONS }
+const AMEND_POSITION_EXECUTIONS: TerminalExecutions = {
+  ORDER_ACCEPTED: 'amended',
+  ORDER_REPLACED: 'amended',
+  ORDER_CANCELLED: 'amended',
+}
+const AMEND_ORDER_EXECUTIONS: TerminalExecutions = { ORDER_REPLACED: 'amended' }
+const CANCEL_ORDER_EXECUTIONS: TerminalExecutions = { ORDER_CANCELLED: 'cancelled' }
+let messageCounter = 0
+
+const REJECTED_EXECUTION_TYPES = ['ORDER_REJECTED', 'ORDER_CANCEL_REJECTED']
+const ERROR_RESPONSE_TYPES = ['ERROR_RES', 'PROTO_OA_ERROR_RES', 'PROTO_OA_ORDER_ERROR_EVENT']
+
+export interface RequestOptions {
+  timeoutMs?: number
+}
+
+export interface ProtoResponse {
+  type: string
+  payload: ProtoPayload
+}
+
+export class CTraderRequestError extends Error {
+  readonly errorCode: string
+
+  constructor(errorCode: string, description?: string) {
+    super(description || errorCode)
+    this.name = 'CTraderRequestError'
+    this.errorCode = errorCode
+  }
+}
+
+export interface ProtoOAClientOptions {
+  createTransport?: () => Transport
+  recorder?: SessionRecorder
+}
+
 export class ProtoOAClient extends EventEmitter {
-  private ws: WebSocket | null = null
+  private transport: Transport | null = null
+  private createTransport: () => Transport
+  private recorder: SessionRecorder | null
   private messageHandler: MessageHandler
   private credentials: UserCredentials
   private accountId: string | null = null
   private isApplicationAuthed = false
   private isAccountAuthed = false
   private reconnectAttempts = 0
+  private stopped = false
   private reconnectTimer: NodeJS.Timeout | null = null
   private pingTimer: NodeJS.Timeout | null = null
   private pingTimeout: NodeJS.Timeout | null = null
   private messageBuffer: Buffer = Buffer.allocUnsafe(0)
   private currentMessageLength: number | null = null
-
-  constructor(messageHandler: MessageHandler, credentials: UserCredentials, accountId?: string) {
+  private spotSubscriptions: Map<number, number> = new Map()
+  private pendingOrders: Map<string, InFlightOrder> = new Map()
+  private pendingQueries: Map<string, PendingQuery> = new Map()
+
+  constructor(
+    messageHandler: MessageHandler,
+    credentials: UserCredentials,
+    accountId?: string,
+    options: ProtoOAClientOptions = {}
+  ) {
     super()
     this.messageHandler = messageHandler
     this.credentials = credentials
     this.accountId = accountId || null
+    this.recorder = options.recorder || null
+    this.createTransport =
+      options.createTransport ||
+      (() => {
+        const scheme = config.ctrader.useTls ? 'wss' : 'ws'
+        return new WebSocketTransport(`${scheme}://${config.ctrader.apiHost}:${config.ctrader.apiPort}`)
+      })
   }
 
   async connect(): Promise<void> {
+    this.stopped = false
+
     return new Promise((resolve, reject) => {
-      const url = `wss://${config.ctrader.apiHost}:${config.ctrader.apiPort}`
-      logger.info({ url, userId: this.credentials.userId }, 'Connecting to cTrader API')
+      logger.info(
+        { host: config.ctrader.apiHost, port: config.ctrader.apiPort, userId: this.credentials.userId },
+        'Connecting to cTrader API'
+      )
 
-      this.ws = new WebSocket(url, {
-        handshakeTimeout: 10000,
-        perMessageDeflate: false,
-      })
+      const transport = this.createTransport()
+      this.transport = transport
 
-      this.ws.on('open', () => {
+      transport.on('open', () => {
         logger.info({ userId: this.credentials.userId }, 'WebSocket connected')
         this.reconnectAttempts = 0
         this.emit('connected')
@@ -67,23 +160,24 @@ export class ProtoOAClient extends EventEmitter {
         resolve()
       })
 
-      this.ws.on('message', (data: Buffer) => {
+      transport.on('message', (data: Buffer) => {
         this.handleMessage(data)
       })
 
-      this.ws.on('error', (error: Error) => {
+      transport.on('error', (error: Error) => {
         logger.error({ error, userId: this.credentials.userId }, 'WebSocket error')
         this.emit('error', error)
         reject(error)
       })
 
-      this.ws.on('close', (code: number, reason: Buffer) => {
-        const reasonString = reason.toString()
-        logger.warn({ code, reason: reasonString, userId: this.credentials.userId }, 'WebSocket closed')
+      transport.on('close', (code: number, reason: string) => {
+        logger.warn({ code, reason, userId: this.credentials.userId }, 'WebSocket closed')
         this.cleanup()
-        this.emit('disconnected', code, reasonString)
+        this.emit('disconnected', code, reason)
         this.scheduleReconnect()
       })
+
+      transport.open()
     })
   }
 
@@ -107,10 +201,11 @@ export class ProtoOAClient extends EventEmitter {
         const messageData = this.messageBuffer.slice(0, totalLength)
         this.messageBuffer = this.messageBuffer.slice(totalLength)
         this.currentMessageLength = null
+        this.recorder?.record('in', messageData)
 
         const decoded = this.messageHandler.decodeMessage(messageData)
         if (decoded) {
-          this.processMessage(decoded.type, decoded.payload)
+          this.processMessage(decoded.type, decoded.payload, decoded.clientMsgId)
         }
       }
     } catch (error) {
@@ -118,9 +213,15 @@ export class ProtoOAClient extends EventEmitter {
     }
   }
 
-  private processMessage(type: string, payload: any): void {
+  private processMessage(type: string, payload: any, clientMsgId?: string): void {
     logger.debug({ type, userId: this.credentials.userId }, 'Processing message')
 
+    // Error responses fail their query in the switch; execution events are still broadcast once they settle one.
+    const settled = !ERROR_RESPONSE_TYPES.includes(type) && this.settleQuery(type, payload, clientMsgId)
+    if (settled && type !== 'PROTO_OA_EXECUTION_EVENT') {
+      return
+    }
+
     switch (type) {
       case 'PROTO_OA_VERSION_RES':
         logger.info({ version: payload.version }, 'Version response received')
@@ -139,17 +240,23 @@ export class ProtoOAClient extends EventEmitter {
       case 'PROTO_OA_ACCOUNT_AUTH_RES':
         logger.info({ userId: this.credentials.userId, accountId: this.accountId }, 'Account authorized')
         this.isAccountAuthed = true
+        this.requestTrader()
         this.requestReconcile()
+        this.resubscribeSpots()
         break
 
-      case 'PROTO_OA_RECONCILE_RES':
-        logger.info({ userId: this.credentials.userId }, 'Reconcile response received')
+      case 'PROTO_OA_TRADER_RES':
+        logger.info({ userId: this.credentials.userId }, 'Trader response received')
         const account = this.messageHandler.extractAccountInfo(payload)
-        const positions = this.messageHandler.extractPositions(payload)
-        
+
         if (account) {
           this.emit('accountAuthorized', account)
         }
+        break
+
+      case 'PROTO_OA_RECONCILE_RES':
+        logger.info({ userId: this.credentials.userId }, 'Reconcile response received')
+        const positions = this.messageHandler.extractPositions(payload)
         
         if (positions.length > 0) {
           this.emit('positionUpdate', positions)
@@ -157,26 +264,61 @@ export class ProtoOAClient extends EventEmitter {
         break
 
       case 'PROTO_OA_EXECUTION_EVENT':
-        logger.debug({ userId: this.credentials.userId }, 'Execution event received')
-        this.emit('executionEvent', payload)
+        logger.debug({ userId: this.credentials.userId, clientMsgId }, 'Execution event received')
+        if (payload.errorCode) {
+          metrics.ctraderErrors.inc({ code: payload.errorCode })
+        }
+        this.emit('executionEvent', payload, clientMsgId)
+        this.settleOrderFromExecution(payload, clientMsgId)
+        break
+
+      case 'PROTO_OA_ORDER_ERROR_EVENT':
+        logger.warn({ error: payload, userId: this.credentials.userId, clientMsgId }, 'Order error from cTrader')
+        metrics.ctraderErrors.inc({ code: payload.errorCode || 'UNKNOWN' })
+        this.emit('orderError', payload, clientMsgId)
+        this.settleOrder(clientMsgId, {
+          status: 'rejected',
+          orderId: payload.orderId,
+          positionId: payload.positionId,
+          errorCode: payload.errorCode,
+          description: payload.description,
+        }) || this.failQuery(clientMsgId, new CTraderRequestError(payload.errorCode, payload.description))
+        break
+
+      case 'PROTO_OA_SUBSCRIBE_SPOTS_RES':
+        logger.debug({ userId: this.credentials.userId }, 'Spot subscription confirmed')
+        break
+
+      case 'PROTO_OA_UNSUBSCRIBE_SPOTS_RES':
+        logger.debug({ userId: this.credentials.userId }, 'Spot unsubscription confirmed')
         break
 
       case 'PROTO_OA_SPOT_EVENT':
         this.emit('spotEvent', payload)
         break
 
-      case 'PROTO_HEARTBEAT_EVENT':
+      case 'HEARTBEAT_EVENT':
         logger.debug({ userId: this.credentials.userId }, 'Heartbeat received')
         this.resetPingTimeout()
         break
 
+      case 'ERROR_RES':
       case 'PROTO_OA_ERROR_RES':
-        logger.error({ error: payload, userId: this.credentials.userId }, 'Error response from cTrader')
-        this.emit('error', new Error(payload.errorCode || 'Unknown error'))
+        logger.error({ error: payload, userId: this.credentials.userId, clientMsgId }, 'Error response from cTrader')
+        metrics.ctraderErrors.inc({ code: payload.errorCode || 'UNKNOWN' })
+        const settled = this.settleOrder(clientMsgId, {
+          status: 'rejected',
+          errorCode: payload.errorCode,
+          description: payload.description,
+        }) || this.failQuery(clientMsgId, new CTraderRequestError(payload.errorCode || 'UNKNOWN', payload.description))
+        if (!settled) {
+          this.emit('error', new Error(payload.errorCode || 'Unknown error'))
+        }
         break
 
       default:
-        logger.debug({ type, userId: this.credentials.userId }, 'Unhandled message type')
+        logger.debug({ type, userId: this.credentials.userId }, 'Forwarding unhandled message type')
+        this.emit('rawEvent', type, payload, clientMsgId)
     }
   }
 
@@ -211,13 +353,149 @@ export class ProtoOAClient extends EventEmitter {
     this.send(message)
   }
 
+  private requestTrader(): void {
+    if (!this.accountId) {
+      return
+    }
+
+    const message = this.messageHandler.createTraderRequest(this.accountId)
+    this.send(message)
+  }
+
+  private query(responseType: string, build: (accountId: string, clientMsgId: string) => Buffer): Promise<ProtoPayload> {
+    if (!this.isAccountAuthed || !this.accountId) {
+      return Promise.reject(new Error('Account not authorized'))
+    }
+
+    const clientMsgId = this.nextClientMsgId()
+    const result = this.trackQuery(clientMsgId, responseType)
+
+    this.send(build(this.accountId, clientMsgId))
+    return result.then(response => response.payload)
+  }
+
+  private trackQuery(
+    clientMsgId: string,
+    responseType?: string,
+    timeoutMs: number = config.connection.requestTimeoutMs
+  ): Promise<ProtoResponse> {
+    return new Promise<ProtoResponse>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingQueries.delete(clientMsgId)
+        reject(new Error('Request timed out'))
+      }, timeoutMs)
+
+      this.pendingQueries.set(clientMsgId, { responseType, resolve, reject, timer })
+    })
+  }
+
+  private settleQuery(type: string, payload: ProtoPayload, clientMsgId?: string): boolean {
+    if (!clientMsgId) return false
+
+    const pending = this.pendingQueries.get(clientMsgId)
+    if (!pending || (pending.responseType && pending.responseType !== type)) return false
+
+    clearTimeout(pending.timer)
+    this.pendingQueries.delete(clientMsgId)
+    pending.resolve({ type, payload })
+    return true
+  }
+
+  private failQuery(clientMsgId: string | undefined, error: Error): boolean {
+    if (!clientMsgId) return false
+
+    const pending = this.pendingQueries.get(clientMsgId)
+    if (!pending) return false
+
+    clearTimeout(pending.timer)
+    this.pendingQueries.delete(clientMsgId)
+    pending.reject(error)
+    return true
+  }
+
+  private trackOrder(clientMsgId: string, operation: string, terminalTypes: TerminalExecutions): Promise<OrderResult> {
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now()
+      const timer = setTimeout(() => {
+        this.pendingOrders.delete(clientMsgId)
+        metrics.orderLatency.observe({ operation, status: 'timeout' }, (Date.now() - startedAt) / 1000)
+        reject(new Error('Order request timed out'))
+      }, config.connection.requestTimeoutMs)
+
+      this.pendingOrders.set(clientMsgId, { operation, startedAt, terminalTypes, resolve, reject, timer })
+    })
+  }
+
+  private settleOrderFromExecution(event: any, clientMsgId?: string): void {
+    if (!clientMsgId) return
+
+    const pending = this.pendingOrders.get(clientMsgId)
+    if (!pending) return
+
+    const executionType: string = event.executionType
+    const status = REJECTED_EXECUTION_TYPES.includes(executionType)
+      ? 'rejected'
+      : pending.terminalTypes[executionType]
+
+    if (!status) return
+
+    this.settleOrder(clientMsgId, {
+      status,
+      orderId: event.order?.orderId,
+      positionId: event.position?.positionId,
+      errorCode: event.errorCode,
+      event,
+    })
+  }
+
+  private settleOrder(clientMsgId: string | undefined, result: OrderResult): boolean {
+    if (!clientMsgId) return false
+
+    const pending = this.pendingOrders.get(clientMsgId)
+    if (!pending) return false
+
+    clearTimeout(pending.timer)
+    this.pendingOrders.delete(clientMsgId)
+    metrics.orderLatency.observe(
+      { operation: pending.operation, status: result.status },
+      (Date.now() - pending.startedAt) / 1000
+    )
+    pending.resolve(result)
+    return true
+  }
+
+  private rejectPendingOrders(reason: string): void {
+    for (const [clientMsgId, pending] of this.pendingOrders.entries()) {
+      clearTimeout(pending.timer)
+      pending.reject(new Error(reason))
+      this.pendingOrders.delete(clientMsgId)
+    }
+
+    for (const clientMsgId of Array.from(this.pendingQueries.keys())) {
+      this.failQuery(clientMsgId, new Error(reason))
+    }
+  }
+
+  private resubscribeSpots(): void {
+    if (!this.accountId || this.spotSubscriptions.size === 0) {
+      return
+    }
+
+    const symbolIds = Array.from(this.spotSubscriptions.keys())
+    logger.info({ userId: this.credentials.userId, symbolIds }, 'Restoring spot subscriptions')
+
+    const message = this.messageHandler.createSubscribeSpotsRequest(this.accountId, symbolIds)
+    this.send(message)
+  }
+
   private send(data: Buffer): void {
-    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+    if (!this.transport || !this.transport.isOpen()) {
       logger.warn({ userId: this.credentials.userId }, 'Cannot send message: WebSocket not open')
       return
     }
 
-    this.ws.send(data, (error) => {
+    this.recorder?.record('out', data)
+    this.transport.send(data, (error) => {
       if (error) {
         logger.error({ error, userId: this.credentials.userId }, 'Failed to send message')
       }
@@ -226,7 +504,7 @@ export class ProtoOAClient extends EventEmitter {
 
   private startPing(): void {
     this.pingTimer = setInterval(() => {
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      if (this.transport && this.transport.isOpen()) {
         const heartbeat = this.messageHandler.createHeartbeatEvent()
         this.send(heartbeat)
         this.setPingTimeout()
@@ -238,7 +516,7 @@ export class ProtoOAClient extends EventEmitter {
     this.clearPingTimeout()
     this.pingTimeout = setTimeout(() => {
       logger.warn({ userId: this.credentials.userId }, 'Ping timeout - closing connection')
-      this.ws?.close(1000, 'Ping timeout')
+      this.transport?.close(1000, 'Ping timeout')
     }, config.connection.pingTimeoutMs)
   }
 
@@ -254,6 +532,8 @@ export class ProtoOAClient extends EventEmitter {
   }
 
   private cleanup(): void {
+    this.rejectPendingOrders('Connection to cTrader lost')
+
     if (this.pingTimer) {
       clearInterval(this.pingTimer)
       this.pingTimer = null
@@ -266,12 +546,19 @@ export class ProtoOAClient extends EventEmitter {
   }
 
   private scheduleReconnect(): void {
+    if (this.stopped) {
+      return
+    }
+
     if (this.reconnectAttempts >= config.connection.maxReconnectAttempts) {
       logger.error({ userId: this.credentials.userId }, 'Max reconnect attempts reached')
+      this.stopped = true
+      this.emit('reconnectFailed')
       return
     }
 
     this.reconnectAttempts++
+    metrics.upstreamReconnects.inc()
     const delay = config.connection.reconnectIntervalMs * this.reconnectAttempts
 
     logger.info(
@@ -293,45 +580,200 @@ export class ProtoOAClient extends EventEmitter {
     }
   }
 
-  public sendOrder(
-    symbolId: number,
-    orderType: number,
-    tradeSide: number,
+  public nextClientMsgId(): string {
+    messageCounter++
+    return `msg_${Date.now()}_${messageCounter}`
+  }
+
+  public async sendOrder(
+    order: Omit<OrderPayload, 'accountId'>,
+    clientMsgId: string = this.nextClientMsgId()
+  ): Promise<OrderResult> {
+    if (!this.isAccountAuthed || !this.accountId) {
+      throw new Error('Account not authorized')
+    }
+
+    const message = this.messageHandler.createNewOrderRequest(this.accountId, order, clientMsgId)
+
+    const terminalTypes = MARKET_ORDER_TYPES.includes(order.orderType) ? FILLED_EXECUTIONS : PENDING_ORDER_EXECUTIONS
+
+    const result = this.trackOrder(clientMsgId, 'order', terminalTypes)
+    this.send(message)
+    return result
+  }
+
+  public async closePosition(
+    positionId: string,
     volume: number,
+    clientMsgId: string = this.nextClientMsgId()
+  ): Promise<OrderResult> {
+    if (!this.isAccountAuthed || !this.accountId) {
+      throw new Error('Account not authorized')
+    }
+
+    const message = this.messageHandler.createClosePositionRequest(
+      this.accountId,
+      positionId,
+      volume,
+      clientMsgId
+    )
+
+    const result = this.trackOrder(clientMsgId, 'closePosition', FILLED_EXECUTIONS)
+    this.send(message)
+    return result
+  }
+
+  public async amendPosition(
+    positionId: string,
     stopLoss?: number,
     takeProfit?: number,
-    comment?: string
-  ): void {
+    clientMsgId: string = this.nextClientMsgId()
+  ): Promise<OrderResult> {
     if (!this.isAccountAuthed || !this.accountId) {
       throw new Error('Account not authorized')
     }
 
-    const message = this.messageHandler.createNewOrderRequest(
+    const message = this.messageHandler.createAmendPositionRequest(
       this.accountId,
-      symbolId,
-      orderType,
-      tradeSide,
-      volume,
+      positionId,
       stopLoss,
       takeProfit,
-      comment
+      clientMsgId
     )
+
+    const result = this.trackOrder(clientMsgId, 'amendPosition', AMEND_POSITION_EXECUTIONS)
     this.send(message)
+    return result
   }
 
-  public closePosition(positionId: string, volume: number): void {
+  public async cancelOrder(orderId: string, clientMsgId: string = this.nextClientMsgId()): Promise<OrderResult> {
     if (!this.isAccountAuthed || !this.accountId) {
       throw new Error('Account not authorized')
     }
 
-    const message = this.messageHandler.createClosePositionRequest(
-      this.accountId,
-      positionId,
-      volume
+    const message = this.messageHandler.createCancelOrderRequest(this.accountId, orderId, clientMsgId)
+
+    const result = this.trackOrder(clientMsgId, 'cancelOrder', CANCEL_ORDER_EXECUTIONS)
+    this.send(message)
+    return result
+  }
+
+  public async amendOrder(
+    orderId: string,
+    changes: Omit<AmendOrderPayload, 'orderId'>,
+    clientMsgId: string = this.nextClientMsgId()
+  ): Promise<OrderResult> {
+    if (!this.isAccountAuthed || !this.accountId) {
+      throw new Error('Account not authorized')
+    }
+
+    const message = this.messageHandler.createAmendOrderRequest(this.accountId, orderId, changes, clientMsgId)
+
+    const result = this.trackOrder(clientMsgId, 'amendOrder', AMEND_ORDER_EXECUTIONS)
+    this.send(message)
+    return result
+  }
+
+  /**
+   * Sends any Open API request by payload type name and resolves with the first message cTrader returns for it.
+   * Error responses reject with CTraderRequestError; timeouts and dropped connections reject with Error.
+   */
+  public async request(
+    payloadType: string,
+    payload: ProtoPayload = {},
+    options: RequestOptions = {}
+  ): Promise<ProtoResponse> {
+    if (!this.isConnected()) {
+      throw new Error('Not connected to cTrader')
+    }
+
+    const clientMsgId = this.nextClientMsgId()
+    const message = this.messageHandler.createRequest(payloadType, payload, clientMsgId)
+    const result = this.trackQuery(clientMsgId, undefined, options.timeoutMs)
+
+    this.send(message)
+    return result
+  }
+
+  public async getAccount(): Promise<CTraderAccount> {
+    const payload = await this.query('PROTO_OA_TRADER_RES', (accountId, clientMsgId) =>
+      this.messageHandler.createTraderRequest(accountId, clientMsgId)
     )
+
+    const account = this.messageHandler.extractAccountInfo(payload)
+    if (!account) {
+      throw new Error('Trader response did not include account details')
+    }
+    return account
+  }
+
+  public async reconcile(): Promise<{ positions: Position[]; orders: PendingOrder[] }> {
+    const payload = await this.query('PROTO_OA_RECONCILE_RES', (accountId, clientMsgId) =>
+      this.messageHandler.createReconcileRequest(accountId, clientMsgId)
+    )
+
+    return {
+      positions: this.messageHandler.extractPositions(payload),
+      orders: this.messageHandler.extractOrders(payload),
+    }
+  }
+
+  public async getRealizedPnl(fromTimestamp: number): Promise<number> {
+    const payload = await this.query('PROTO_OA_DEAL_LIST_RES', (accountId, clientMsgId) =>
+      this.messageHandler.createDealListRequest(accountId, fromTimestamp, Date.now(), clientMsgId)
+    )
+
+    return this.messageHandler.extractRealizedPnl(payload)
+  }
+
+  public subscribeSpots(symbolIds: number[]): void {
+    const added: number[] = []
+
+    for (const symbolId of symbolIds) {
+      const count = this.spotSubscriptions.get(symbolId) || 0
+      this.spotSubscriptions.set(symbolId, count + 1)
+      if (count === 0) {
+        added.push(symbolId)
+      }
+    }
+
+    if (added.length === 0 || !this.isAccountAuthed || !this.accountId) {
+      return
+    }
+
+    const message = this.messageHandler.createSubscribeSpotsRequest(this.accountId, added)
+    this.send(message)
+  }
+
+  public unsubscribeSpots(symbolIds: number[]): void {
+    const removed: number[] = []
+
+    for (const symbolId of symbolIds) {
+      const count = this.spotSubscriptions.get(symbolId)
+      if (!count) {
+        continue
+      }
+
+      if (count === 1) {
+        this.spotSubscriptions.delete(symbolId)
+        removed.push(symbolId)
+      } else {
+        this.spotSubscriptions.set(symbolId, count - 1)
+      }
+    }
+
+    if (removed.length === 0 || !this.isAccountAuthed || !this.accountId) {
+      return
+    }
+
+    const message = this.messageHandler.createUnsubscribeSpotsRequest(this.accountId, removed)
     this.send(message)
   }
 
+  public getSubscribedSymbols(): number[] {
+    return Array.from(this.spotSubscriptions.keys())
+  }
+
   public disconnect(): void {
     logger.info({ userId: this.credentials.userId }, 'Disconnecting client')
     
@@ -340,18 +782,19 @@ export class ProtoOAClient extends EventEmitter {
       this.reconnectTimer = null
     }
 
-    this.reconnectAttempts = config.connection.maxReconnectAttempts
+    this.stopped = true
 
-    if (this.ws) {
-      this.ws.close(1000, 'Client disconnect')
-      this.ws = null
+    if (this.transport) {
+      this.transport.close(1000, 'Client disconnect')
+      this.transport = null
     }
 
     this.cleanup()
+    this.recorder?.close()
   }
 
   public isConnected(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN
+    return this.transport !== null && this.transport.isOpen()
   }
 
   public isAuthenticated(): boolean {
@@ -0,0 +1,161 @@
+import { logger } from '../logger'
+import { BackplaneRpc } from '../backplane/BackplaneRpc'
+import { ProtoOAClient } from './ProtoOAClient'
+import { CTraderAccount, Position, PendingOrder, OrderResult, OrderPayload, AmendOrderPayload } from '../types'
+
+/** The part of ProtoOAClient an upstream session exposes, whether its connection is local or remote. */
+export type SessionClient = Pick<
+  ProtoOAClient,
+  | 'isAuthenticated'
+  | 'nextClientMsgId'
+  | 'sendOrder'
+  | 'closePosition'
+  | 'amendPosition'
+  | 'cancelOrder'
+  | 'amendOrder'
+  | 'getAccount'
+  | 'reconcile'
+  | 'getRealizedPnl'
+  | 'subscribeSpots'
+  | 'unsubscribeSpots'
+  | 'getSubscribedSymbols'
+  | 'disconnect'
+>
+
+export const SESSION_COMMANDS = [
+  'sendOrder',
+  'closePosition',
+  'amendPosition',
+  'cancelOrder',
+  'amendOrder',
+  'getAccount',
+  'reconcile',
+  'getRealizedPnl',
+  'subscribeSpots',
+  'unsubscribeSpots',
+] as const
+
+export type SessionCommand = typeof SESSION_COMMANDS[number]
+
+export interface SessionSnapshot {
+  authenticated: boolean
+  account: CTraderAccount | null
+  positions: Position[]
+}
+
+let messageCounter = 0
+
+/** Forwards session calls to the bridge instance that owns the account's cTrader connection. */
+export class RemoteSessionClient implements SessionClient {
+  private rpc: BackplaneRpc
+  private channel: string
+  private instanceId: string
+  private authenticated = false
+  private spotSubscriptions: Map<number, number> = new Map()
+
+  constructor(rpc: BackplaneRpc, channel: string, instanceId: string) {
+    this.rpc = rpc
+    this.channel = channel
+    this.instanceId = instanceId
+  }
+
+  async attach(): Promise<SessionSnapshot> {
+    const snapshot = await this.rpc.call<SessionSnapshot>(this.channel, 'attach', [this.instanceId])
+    this.authenticated = snapshot.authenticated
+    return snapshot
+  }
+
+  /** Keeps this instance's membership alive on the owner, restoring its subscriptions if the owner expired it. */
+  renew(): void {
+    this.notify('renew', [this.instanceId, Array.from(this.spotSubscriptions.entries())])
+  }
+
+  setAuthenticated(authenticated: boolean): void {
+    this.authenticated = authenticated
+  }
+
+  isAuthenticated(): boolean {
+    return this.authenticated
+  }
+
+  nextClientMsgId(): string {
+    messageCounter++
+    return `${this.instanceId}_msg_${Date.now()}_${messageCounter}`
+  }
+
+  sendOrder(order: Omit<OrderPayload, 'accountId'>, clientMsgId: string = this.nextClientMsgId()): Promise<OrderResult> {
+    return this.rpc.call(this.channel, 'sendOrder', [order, clientMsgId])
+  }
+
+  closePosition(positionId: string, volume: number, clientMsgId: string = this.nextClientMsgId()): Promise<OrderResult> {
+    return this.rpc.call(this.channel, 'closePosition', [positionId, volume, clientMsgId])
+  }
+
+  amendPosition(
+    positionId: string,
+    stopLoss?: number,
+    takeProfit?: number,
+    clientMsgId: string = this.nextClientMsgId()
+  ): Promise<OrderResult> {
+    return this.rpc.call(this.channel, 'amendPosition', [positionId, stopLoss, takeProfit, clientMsgId])
+  }
+
+  cancelOrder(orderId: string, clientMsgId: string = this.nextClientMsgId()): Promise<OrderResult> {
+    return this.rpc.call(this.channel, 'cancelOrder', [orderId, clientMsgId])
+  }
+
+  amendOrder(
+    orderId: string,
+    changes: Omit<AmendOrderPayload, 'orderId'>,
+    clientMsgId: string = this.nextClientMsgId()
+  ): Promise<OrderResult> {
+    return this.rpc.call(this.channel, 'amendOrder', [orderId, changes, clientMsgId])
+  }
+
+  getAccount(): Promise<CTraderAccount> {
+    return this.rpc.call(this.channel, 'getAccount')
+  }
+
+  reconcile(): Promise<{ positions: Position[]; orders: PendingOrder[] }> {
+    return this.rpc.call(this.channel, 'reconcile')
+  }
+
+  getRealizedPnl(fromTimestamp: number): Promise<number> {
+    return this.rpc.call(this.channel, 'getRealizedPnl', [fromTimestamp])
+  }
+
+  subscribeSpots(symbolIds: number[]): void {
+    for (const symbolId of symbolIds) {
+      this.spotSubscriptions.set(symbolId, (this.spotSubscriptions.get(symbolId) || 0) + 1)
+    }
+    this.notify('subscribeSpots', [symbolIds, this.instanceId])
+  }
+
+  unsubscribeSpots(symbolIds: number[]): void {
+    for (const symbolId of symbolIds) {
+      const count = this.spotSubscriptions.get(symbolId) || 0
+      if (count <= 1) {
+        this.spotSubscriptions.delete(symbolId)
+      } else {
+        this.spotSubscriptions.set(symbolId, count - 1)
+      }
+    }
+    this.notify('unsubscribeSpots', [symbolIds, this.instanceId])
+  }
+
+  getSubscribedSymbols(): number[] {
+    return Array.from(this.spotSubscriptions.keys())
+  }
+
+  disconnect(): void {
+    this.authenticated = false
+    this.spotSubscriptions.clear()
+    this.notify('detach', [this.instanceId])
+  }
+
+  private notify(method: string, args: unknown[]): void {
+    this.rpc.notify(this.channel, method, args).catch((error) => {
+      logger.error({ error, method, channel: this.channel }, 'Failed to forward session command')
+    })
+  }
+}
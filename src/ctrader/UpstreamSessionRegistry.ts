@@ -0,0 +1,554 @@
+import { EventEmitter } from 'events'
+import { join } from 'path'
+import { config } from '../config'
+import { logger } from '../logger'
+import { Backplane } from '../backplane/Backplane'
+import { BackplaneRpc } from '../backplane/BackplaneRpc'
+import { MessageHandler } from './MessageHandler'
+import { ProtoOAClient } from './ProtoOAClient'
+import { SessionRecorder } from './transport/SessionRecorder'
+import { RemoteSessionClient, SessionClient, SessionCommand, SESSION_COMMANDS } from './RemoteSessionClient'
+import { UserCredentials, CTraderAccount, Position, ProtoPayload } from '../types'
+
+export interface UpstreamSession {
+  key: string
+  userId: string
+  accountId: string
+  client: SessionClient
+  /** Set when another bridge instance owns the cTrader connection and this one proxies to it. */
+  remote: boolean
+  clientIds: Set<string>
+  account: CTraderAccount | null
+  positions: Position[]
+  ready: Promise<void>
+}
+
+interface RemoteInstance {
+  lastSeen: number
+  /** Spot subscription counts this instance added to the owner's client, released when it leaves. */
+  spots: Map<number, number>
+}
+
+interface SessionRoute {
+  owner: string
+  remoteInstances: Map<string, RemoteInstance>
+  ownershipTimer: NodeJS.Timeout
+}
+
+interface SessionEvent {
+  event: string
+  args: any[]
+}
+
+export interface UpstreamSessionRegistryEvents {
+  accountAuthorized: (session: UpstreamSession, account: CTraderAccount) => void
+  positionUpdate: (session: UpstreamSession, positions: Position[]) => void
+  executionEvent: (session: UpstreamSession, event: ProtoPayload, clientMsgId?: string) => void
+  orderError: (session: UpstreamSession, event: ProtoPayload, clientMsgId?: string) => void
+  spotEvent: (session: UpstreamSession, event: ProtoPayload) => void
+  rawEvent: (session: UpstreamSession, type: string, payload: ProtoPayload) => void
+  error: (session: UpstreamSession, error: Error) => void
+  disconnected: (session: UpstreamSession, code: number, reason: string) => void
+  sessionClosed: (session: UpstreamSession, reason: string) => void
+}
+
+export declare interface UpstreamSessionRegistry {
+  on<U extends keyof UpstreamSessionRegistryEvents>(
+    event: U,
+    listener: UpstreamSessionRegistryEvents[U]
+  ): this
+  emit<U extends keyof UpstreamSessionRegistryEvents>(
+    event: U,
+    ...args: Parameters<UpstreamSessionRegistryEvents[U]>
+  ): boolean
+}
+
+export class UpstreamSessionRegistry extends EventEmitter {
+  private messageHandler: MessageHandler
+  private backplane: Backplane
+  private rpc: BackplaneRpc
+  private instanceId = config.backplane.instanceId
+  private sessions: Map<string, UpstreamSession> = new Map()
+  private routes: Map<string, SessionRoute> = new Map()
+
+  constructor(messageHandler: MessageHandler, backplane: Backplane) {
+    super()
+    this.messageHandler = messageHandler
+    this.backplane = backplane
+    this.rpc = new BackplaneRpc(backplane, this.channel('instance', this.instanceId))
+  }
+
+  static sessionKey(userId: string, accountId: string): string {
+    return `${userId}:${accountId}`
+  }
+
+  async start(): Promise<void> {
+    await this.backplane.connect()
+    await this.rpc.start()
+    logger.info({ instanceId: this.instanceId, driver: config.backplane.driver }, 'Session backplane started')
+  }
+
+  async stop(): Promise<void> {
+    this.closeAll()
+    await this.rpc.stop()
+    await this.backplane.close()
+  }
+
+  async attach(
+    clientId: string,
+    credentials: UserCredentials,
+    accountId: string
+  ): Promise<{ session: UpstreamSession; created: boolean }> {
+    const key = UpstreamSessionRegistry.sessionKey(credentials.userId, accountId)
+    const existing = this.sessions.get(key)
+
+    if (existing) {
+      existing.clientIds.add(clientId)
+      logger.info({ clientId, key, clients: existing.clientIds.size }, 'Attached to existing upstream session')
+
+      try {
+        await existing.ready
+      } catch (error) {
+        existing.clientIds.delete(clientId)
+        throw error
+      }
+
+      if (this.sessions.get(key) !== existing) {
+        return this.attach(clientId, credentials, accountId)
+      }
+
+      return { session: existing, created: false }
+    }
+
+    const owner = await this.backplane.claim(
+      this.channel('session', key, 'owner'),
+      this.instanceId,
+      config.backplane.ownershipTtlMs
+    )
+
+    if (this.sessions.has(key)) {
+      return this.attach(clientId, credentials, accountId)
+    }
+
+    return owner === this.instanceId
+      ? this.createLocalSession(clientId, credentials, accountId, key)
+      : this.createRemoteSession(clientId, credentials.userId, accountId, key, owner)
+  }
+
+  detach(clientId: string, session: UpstreamSession): void {
+    session.clientIds.delete(clientId)
+    logger.info({ clientId, key: session.key, clients: session.clientIds.size }, 'Detached from upstream session')
+    this.closeIfUnused(session)
+  }
+
+  get(userId: string, accountId: string): UpstreamSession | undefined {
+    return this.sessions.get(UpstreamSessionRegistry.sessionKey(userId, accountId))
+  }
+
+  getSessions(): UpstreamSession[] {
+    return Array.from(this.sessions.values())
+  }
+
+  closeAll(): void {
+    for (const session of this.sessions.values()) {
+      this.close(session)
+    }
+  }
+
+  private async createLocalSession(
+    clientId: string,
+    credentials: UserCredentials,
+    accountId: string,
+    key: string
+  ): Promise<{ session: UpstreamSession; created: boolean }> {
+    const client = new ProtoOAClient(this.messageHandler, credentials, accountId, {
+      recorder: config.ctrader.recordingDir
+        ? new SessionRecorder(
+            this.messageHandler,
+            join(config.ctrader.recordingDir, `${credentials.userId}-${accountId}-${Date.now()}.jsonl`)
+          )
+        : undefined,
+    })
+    const session: UpstreamSession = {
+      key,
+      userId: credentials.userId,
+      accountId,
+      client,
+      remote: false,
+      clientIds: new Set([clientId]),
+      account: null,
+      positions: [],
+      ready: Promise.resolve(),
+    }
+
+    this.wireSession(session, client)
+    this.sessions.set(key, session)
+    this.trackOwnership(session, this.instanceId)
+    logger.info({ clientId, key }, 'Creating upstream session')
+
+    session.ready = this.rpc
+      .serve(this.channel('session', key, 'commands'), (method, args) => this.handleCommand(session, method, args))
+      .then(() => client.connect())
+
+    await this.awaitReady(session)
+    return { session, created: true }
+  }
+
+  private async createRemoteSession(
+    clientId: string,
+    userId: string,
+    accountId: string,
+    key: string,
+    owner: string
+  ): Promise<{ session: UpstreamSession; created: boolean }> {
+    const client = new RemoteSessionClient(this.rpc, this.channel('session', key, 'commands'), this.instanceId)
+    const session: UpstreamSession = {
+      key,
+      userId,
+      accountId,
+      client,
+      remote: true,
+      clientIds: new Set([clientId]),
+      account: null,
+      positions: [],
+      ready: Promise.resolve(),
+    }
+
+    this.sessions.set(key, session)
+    this.trackOwnership(session, owner)
+    logger.info({ clientId, key, owner }, 'Proxying upstream session through backplane')
+
+    session.ready = this.backplane
+      .subscribe(this.channel('session', key, 'events'), message => this.handleRemoteEvent(session, client, message))
+      .then(() => client.attach())
+      .then((snapshot) => {
+        session.account = snapshot.account
+        session.positions = snapshot.positions
+      })
+
+    await this.awaitReady(session)
+    return { session, created: false }
+  }
+
+  private async awaitReady(session: UpstreamSession): Promise<void> {
+    try {
+      await session.ready
+    } catch (error) {
+      this.close(session)
+      throw error
+    }
+
+    if (this.sessions.get(session.key) !== session) {
+      throw new Error('Upstream session closed while connecting')
+    }
+  }
+
+  private async handleCommand(session: UpstreamSession, method: string, args: unknown[]): Promise<unknown> {
+    const route = this.routes.get(session.key)
+
+    switch (method) {
+      case 'attach':
+        await session.ready
+        if (route) {
+          this.releaseRemote(session, route, String(args[0]))
+          this.touchRemote(route, String(args[0]))
+        }
+        logger.info({ key: session.key, instanceId: args[0] }, 'Remote instance attached to upstream session')
+        return { authenticated: session.client.isAuthenticated(), account: session.account, positions: session.positions }
+
+      case 'renew': {
+        if (!route) return undefined
+
+        const rejoined = !route.remoteInstances.has(String(args[0]))
+        const remote = this.touchRemote(route, String(args[0]))
+        if (rejoined) {
+          logger.info({ key: session.key, instanceId: args[0] }, 'Remote instance rejoined upstream session')
+          for (const [symbolId, count] of args[1] as [number, number][]) {
+            this.subscribeRemoteSpots(session, remote, Array(count).fill(symbolId))
+          }
+        }
+        return undefined
+      }
+
+      case 'detach':
+        if (route) {
+          this.releaseRemote(session, route, String(args[0]))
+        }
+        logger.info({ key: session.key, instanceId: args[0] }, 'Remote instance detached from upstream session')
+        this.closeIfUnused(session)
+        return undefined
+
+      case 'subscribeSpots':
+      case 'unsubscribeSpots': {
+        if (!route) return undefined
+
+        const remote = this.touchRemote(route, String(args[1]))
+        if (method === 'subscribeSpots') {
+          this.subscribeRemoteSpots(session, remote, args[0] as number[])
+        } else {
+          this.unsubscribeRemoteSpots(session, remote, args[0] as number[])
+        }
+        return undefined
+      }
+    }
+
+    if (!SESSION_COMMANDS.includes(method as SessionCommand)) {
+      throw new Error(`Unknown session command: ${method}`)
+    }
+
+    const command = session.client[method as SessionCommand] as (...commandArgs: unknown[]) => unknown
+    return command.apply(session.client, args.map(arg => arg === null ? undefined : arg))
+  }
+
+  private handleRemoteEvent(session: UpstreamSession, client: RemoteSessionClient, message: string): void {
+    let parsed: SessionEvent
+    try {
+      parsed = JSON.parse(message)
+    } catch (error) {
+      logger.warn({ error, key: session.key }, 'Discarding malformed session event')
+      return
+    }
+
+    const { event, args } = parsed
+
+    switch (event) {
+      case 'accountAuthorized':
+        session.account = args[0]
+        client.setAuthenticated(true)
+        this.emit('accountAuthorized', session, args[0])
+        break
+
+      case 'positionUpdate':
+        session.positions = args[0]
+        this.emit('positionUpdate', session, args[0])
+        break
+
+      case 'executionEvent':
+        this.emit('executionEvent', session, args[0], args[1] ?? undefined)
+        break
+
+      case 'orderError':
+        this.emit('orderError', session, args[0], args[1] ?? undefined)
+        break
+
+      case 'spotEvent':
+        this.emit('spotEvent', session, args[0])
+        break
+
+      case 'rawEvent':
+        this.emit('rawEvent', session, args[0], args[1])
+        break
+
+      case 'error':
+        this.emit('error', session, new Error(args[0]))
+        break
+
+      case 'disconnected':
+        client.setAuthenticated(false)
+        this.emit('disconnected', session, args[0], args[1])
+        break
+
+      case 'closed':
+        client.setAuthenticated(false)
+        this.close(session, 'Upstream session closed by owner')
+        break
+    }
+  }
+
+  private trackOwnership(session: UpstreamSession, owner: string): void {
+    this.routes.set(session.key, {
+      owner,
+      remoteInstances: new Map(),
+      ownershipTimer: setInterval(() => {
+        this.checkOwnership(session).catch((error) => {
+          logger.error({ error, key: session.key }, 'Failed to check upstream session ownership')
+        })
+      }, config.backplane.ownershipTtlMs / 3),
+    })
+  }
+
+  private async checkOwnership(session: UpstreamSession): Promise<void> {
+    const route = this.routes.get(session.key)
+    if (!route) return
+
+    const ownerKey = this.channel('session', session.key, 'owner')
+    const holder = session.remote
+      ? await this.backplane.holder(ownerKey)
+      : await this.backplane.claim(ownerKey, this.instanceId, config.backplane.ownershipTtlMs)
+
+    if (this.sessions.get(session.key) !== session) {
+      return
+    }
+
+    if (holder === route.owner) {
+      if (session.client instanceof RemoteSessionClient) {
+        session.client.renew()
+      } else {
+        this.expireRemotes(session, route)
+      }
+      return
+    }
+
+    logger.warn({ key: session.key, owner: route.owner, holder }, 'Upstream session ownership changed')
+    this.close(session, 'Upstream session owner changed')
+  }
+
+  private touchRemote(route: SessionRoute, instanceId: string): RemoteInstance {
+    let remote = route.remoteInstances.get(instanceId)
+    if (!remote) {
+      remote = { lastSeen: 0, spots: new Map() }
+      route.remoteInstances.set(instanceId, remote)
+    }
+    remote.lastSeen = Date.now()
+    return remote
+  }
+
+  private subscribeRemoteSpots(session: UpstreamSession, remote: RemoteInstance, symbolIds: number[]): void {
+    for (const symbolId of symbolIds) {
+      remote.spots.set(symbolId, (remote.spots.get(symbolId) || 0) + 1)
+    }
+    session.client.subscribeSpots(symbolIds)
+  }
+
+  private unsubscribeRemoteSpots(session: UpstreamSession, remote: RemoteInstance, symbolIds: number[]): void {
+    const held = symbolIds.filter((symbolId) => {
+      const count = remote.spots.get(symbolId) || 0
+      if (count <= 1) {
+        remote.spots.delete(symbolId)
+      } else {
+        remote.spots.set(symbolId, count - 1)
+      }
+      return count > 0
+    })
+
+    if (held.length > 0) {
+      session.client.unsubscribeSpots(held)
+    }
+  }
+
+  private releaseRemote(session: UpstreamSession, route: SessionRoute, instanceId: string): void {
+    const remote = route.remoteInstances.get(instanceId)
+    if (!remote) return
+
+    route.remoteInstances.delete(instanceId)
+    const symbolIds = Array.from(remote.spots.entries()).flatMap(([symbolId, count]) => Array(count).fill(symbolId))
+    if (symbolIds.length > 0) {
+      session.client.unsubscribeSpots(symbolIds)
+    }
+  }
+
+  private expireRemotes(session: UpstreamSession, route: SessionRoute): void {
+    const cutoff = Date.now() - config.backplane.ownershipTtlMs
+
+    for (const [instanceId, remote] of Array.from(route.remoteInstances.entries())) {
+      if (remote.lastSeen < cutoff) {
+        logger.warn({ key: session.key, instanceId }, 'Remote instance stopped renewing, releasing its share of the session')
+        this.releaseRemote(session, route, instanceId)
+      }
+    }
+
+    this.closeIfUnused(session)
+  }
+
+  private publishEvent(session: UpstreamSession, event: string, args: unknown[]): void {
+    if (!this.routes.get(session.key)?.remoteInstances.size) {
+      return
+    }
+
+    const message: SessionEvent = { event, args }
+    this.backplane.publish(this.channel('session', session.key, 'events'), JSON.stringify(message)).catch((error) => {
+      logger.error({ error, key: session.key, event }, 'Failed to publish session event')
+    })
+  }
+
+  private closeIfUnused(session: UpstreamSession): void {
+    if (session.clientIds.size === 0 && !this.routes.get(session.key)?.remoteInstances.size) {
+      this.close(session)
+    }
+  }
+
+  private close(session: UpstreamSession, reason = 'Upstream session closed'): void {
+    if (this.sessions.get(session.key) !== session) {
+      return
+    }
+
+    this.publishEvent(session, 'closed', [])
+
+    const route = this.routes.get(session.key)
+    if (route) {
+      clearInterval(route.ownershipTimer)
+      this.routes.delete(session.key)
+    }
+
+    this.sessions.delete(session.key)
+    session.client.disconnect()
+
+    const channel = session.remote ? 'events' : 'commands'
+    this.backplane.unsubscribe(this.channel('session', session.key, channel)).catch((error) => {
+      logger.error({ error, key: session.key }, 'Failed to unsubscribe from session channel')
+    })
+
+    if (!session.remote) {
+      this.backplane.release(this.channel('session', session.key, 'owner'), this.instanceId).catch((error) => {
+        logger.error({ error, key: session.key }, 'Failed to release upstream session ownership')
+      })
+    }
+
+    logger.info({ key: session.key, remote: session.remote, reason }, 'Upstream session closed')
+    this.emit('sessionClosed', session, reason)
+    session.clientIds.clear()
+  }
+
+  private channel(...parts: string[]): string {
+    return config.backplane.keyPrefix + parts.join(':')
+  }
+
+  private wireSession(session: UpstreamSession, client: ProtoOAClient): void {
+    client.on('accountAuthorized', (account) => {
+      session.account = account
+      this.emit('accountAuthorized', session, account)
+      this.publishEvent(session, 'accountAuthorized', [account])
+    })
+
+    client.on('positionUpdate', (positions) => {
+      session.positions = positions
+      this.emit('positionUpdate', session, positions)
+      this.publishEvent(session, 'positionUpdate', [positions])
+    })
+
+    client.on('executionEvent', (event, clientMsgId) => {
+      this.emit('executionEvent', session, event, clientMsgId)
+      this.publishEvent(session, 'executionEvent', [event, clientMsgId])
+    })
+
+    client.on('orderError', (event, clientMsgId) => {
+      this.emit('orderError', session, event, clientMsgId)
+      this.publishEvent(session, 'orderError', [event, clientMsgId])
+    })
+
+    client.on('spotEvent', (event) => {
+      this.emit('spotEvent', session, event)
+      this.publishEvent(session, 'spotEvent', [event])
+    })
+
+    client.on('rawEvent', (type, payload) => {
+      this.emit('rawEvent', session, type, payload)
+      this.publishEvent(session, 'rawEvent', [type, payload])
+    })
+
+    client.on('error', (error) => {
+      this.emit('error', session, error)
+      this.publishEvent(session, 'error', [error.message])
+    })
+
+    client.on('disconnected', (code, reason) => {
+      this.emit('disconnected', session, code, reason)
+      this.publishEvent(session, 'disconnected', [code, reason])
+    })
+
+    client.on('reconnectFailed', () => {
+      logger.warn({ key: session.key }, 'Upstream session could not reconnect')
+      this.close(session, 'Connection to cTrader lost')
+    })
+  }
+}
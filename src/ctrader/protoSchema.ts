@@ -0,0 +1,56 @@
+import * as protobuf from 'protobufjs'
+import { resolve } from 'path'
+
+export interface ProtoSchema {
+  root: protobuf.Root
+  ProtoMessage: protobuf.Type
+  payloadTypeIds: Map<string, number>
+  payloadTypeNames: Map<number, string>
+  /** Message definitions keyed by the payload type name they are sent under. */
+  messageTypes: Map<string, protobuf.Type>
+}
+
+const PROTO_PATH = resolve(__dirname, './proto')
+
+// Load proto files in correct dependency order
+const PROTO_FILES = [
+  'OpenApiCommonModelMessages.proto',
+  'OpenApiModelMessages.proto',
+  'OpenApiCommonMessages.proto',
+  'OpenApiMessages.proto',
+]
+
+/** Loads the cTrader Open API protos and indexes every message by its payload type. */
+export async function loadProtoSchema(): Promise<ProtoSchema> {
+  const root = new protobuf.Root()
+  await root.load(PROTO_FILES.map(file => resolve(PROTO_PATH, file)))
+  root.resolveAll()
+
+  const payloadTypeIds: Map<string, number> = new Map()
+  const payloadTypeNames: Map<number, string> = new Map()
+  for (const enumName of ['ProtoPayloadType', 'ProtoOAPayloadType']) {
+    for (const [name, id] of Object.entries(root.lookupEnum(enumName).values)) {
+      payloadTypeIds.set(name, id)
+      payloadTypeNames.set(id, name)
+    }
+  }
+
+  const messageTypes: Map<string, protobuf.Type> = new Map()
+  collectMessageTypes(root, messageTypes)
+
+  return { root, ProtoMessage: root.lookupType('ProtoMessage'), payloadTypeIds, payloadTypeNames, messageTypes }
+}
+
+// Every message declares its own payload type as the default of its payloadType field
+function collectMessageTypes(namespace: protobuf.NamespaceBase, messageTypes: Map<string, protobuf.Type>): void {
+  for (const nested of namespace.nestedArray) {
+    if (nested instanceof protobuf.Type) {
+      const payloadType = nested.fields.payloadType?.options?.default
+      if (typeof payloadType === 'string') {
+        messageTypes.set(payloadType, nested)
+      }
+    } else if (nested instanceof protobuf.Namespace) {
+      collectMessageTypes(nested, messageTypes)
+    }
+  }
+}
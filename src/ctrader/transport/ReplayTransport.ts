@@ -0,0 +1,145 @@
+import { EventEmitter } from 'events'
+import { logger } from '../../logger'
+import { MessageHandler } from '../MessageHandler'
+import { RecordedFrame } from '../../types'
+import { Transport, TransportEvents } from './Transport'
+
+export declare interface ReplayTransport {
+  on<U extends keyof TransportEvents>(event: U, listener: TransportEvents[U]): this
+  emit<U extends keyof TransportEvents>(event: U, ...args: Parameters<TransportEvents[U]>): boolean
+}
+
+/**
+ * Feeds a recorded session back to ProtoOAClient. Inbound frames are delivered in order, one per tick,
+ * and replay pauses at each recorded outbound frame until the client sends a frame of the same type.
+ * Recorded clientMsgIds are rewritten to the ones the client used so responses correlate.
+ */
+export class ReplayTransport extends EventEmitter implements Transport {
+  readonly divergences: { payloadType: number; type: string | null; expected?: RecordedFrame }[] = []
+  private messageHandler: MessageHandler
+  private frames: RecordedFrame[]
+  private cursor = 0
+  private matched: Set<number> = new Set()
+  private clientMsgIds: Map<string, string> = new Map()
+  private opened = false
+  private stepScheduled = false
+  private finish!: () => void
+  private fail!: (error: Error) => void
+  private done: Promise<void>
+
+  constructor(messageHandler: MessageHandler, frames: RecordedFrame[]) {
+    super()
+    this.messageHandler = messageHandler
+    this.frames = frames
+    this.done = new Promise((resolve, reject) => {
+      this.finish = resolve
+      this.fail = reject
+    })
+    this.done.catch(() => undefined)
+  }
+
+  open(): void {
+    setImmediate(() => {
+      this.opened = true
+      this.emit('open')
+      this.advance()
+    })
+  }
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    const header = this.messageHandler.readFrameHeader(data)
+    if (header && header.type !== 'HEARTBEAT_EVENT') {
+      this.matchOutbound(header)
+    }
+    callback?.()
+  }
+
+  close(code: number, reason: string): void {
+    if (!this.opened) {
+      return
+    }
+
+    this.opened = false
+    if (this.cursor < this.frames.length) {
+      this.fail(new Error(`Replay closed at frame ${this.cursor} of ${this.frames.length}`))
+    }
+    setImmediate(() => this.emit('close', code, reason))
+  }
+
+  isOpen(): boolean {
+    return this.opened
+  }
+
+  /** Resolves once every recorded frame has been delivered or matched; rejects on the first divergence or an early close. */
+  finished(): Promise<void> {
+    return this.done
+  }
+
+  private matchOutbound(header: { payloadType: number; type: string | null; clientMsgId?: string }): void {
+    const index = this.frames.findIndex(
+      (frame, position) =>
+        position >= this.cursor &&
+        frame.direction === 'out' &&
+        frame.type !== 'HEARTBEAT_EVENT' &&
+        !this.matched.has(position)
+    )
+    const expected = index === -1 ? undefined : this.frames[index]
+
+    if (!expected || expected.payloadType !== header.payloadType) {
+      logger.warn({ type: header.type, expected: expected?.type }, 'Replay diverged from recording')
+      this.divergences.push({ payloadType: header.payloadType, type: header.type, expected })
+      this.fail(new Error(`Replay diverged: sent ${header.type ?? header.payloadType}, expected ${expected?.type ?? 'nothing'}`))
+      return
+    }
+
+    this.matched.add(index)
+    if (expected.clientMsgId && header.clientMsgId) {
+      this.clientMsgIds.set(expected.clientMsgId, header.clientMsgId)
+    }
+    this.advance()
+  }
+
+  private advance(): void {
+    if (this.stepScheduled || !this.opened) {
+      return
+    }
+
+    this.stepScheduled = true
+    setImmediate(() => {
+      this.stepScheduled = false
+      this.step()
+    })
+  }
+
+  private step(): void {
+    if (!this.opened) {
+      return
+    }
+
+    const frame = this.frames[this.cursor]
+    if (!frame) {
+      this.finish()
+      return
+    }
+
+    if (frame.direction === 'out') {
+      if (frame.type === 'HEARTBEAT_EVENT' || this.matched.has(this.cursor)) {
+        this.cursor++
+        this.advance()
+      }
+      return
+    }
+
+    this.cursor++
+    if (frame.data) {
+      this.emit('message', this.rewrite(frame))
+    }
+    this.advance()
+  }
+
+  private rewrite(frame: RecordedFrame): Buffer {
+    const data = Buffer.from(frame.data!, 'base64')
+    const clientMsgId = frame.clientMsgId && this.clientMsgIds.get(frame.clientMsgId)
+    return clientMsgId ? this.messageHandler.withClientMsgId(data, clientMsgId) : data
+  }
+}
@@ -0,0 +1,67 @@
+import { createWriteStream, mkdirSync, WriteStream } from 'fs'
+import { readFile } from 'fs/promises'
+import { dirname } from 'path'
+import { logger } from '../../logger'
+import { MessageHandler } from '../MessageHandler'
+import { RecordedFrame } from '../../types'
+
+const REDACTED_TYPES = [
+  'PROTO_OA_APPLICATION_AUTH_REQ',
+  'PROTO_OA_ACCOUNT_AUTH_REQ',
+  'PROTO_OA_REFRESH_TOKEN_REQ',
+  'PROTO_OA_REFRESH_TOKEN_RES',
+]
+
+/** Appends every framed ProtoMessage of a session to a JSONL file, leaving out the bytes of frames that carry credentials. */
+export class SessionRecorder {
+  private messageHandler: MessageHandler
+  private path: string
+  private stream: WriteStream | null = null
+
+  constructor(messageHandler: MessageHandler, path: string) {
+    this.messageHandler = messageHandler
+    this.path = path
+  }
+
+  record(direction: RecordedFrame['direction'], data: Buffer): void {
+    const header = this.messageHandler.readFrameHeader(data)
+    if (!header) {
+      return
+    }
+
+    const frame: RecordedFrame = {
+      direction,
+      timestamp: Date.now(),
+      payloadType: header.payloadType,
+      type: header.type,
+      clientMsgId: header.clientMsgId,
+      data: header.type && REDACTED_TYPES.includes(header.type) ? undefined : data.toString('base64'),
+    }
+
+    this.open().write(JSON.stringify(frame) + '\n')
+  }
+
+  close(): void {
+    this.stream?.end()
+    this.stream = null
+  }
+
+  private open(): WriteStream {
+    if (!this.stream) {
+      mkdirSync(dirname(this.path), { recursive: true })
+      this.stream = createWriteStream(this.path, { flags: 'a' })
+      this.stream.on('error', (error) => {
+        logger.error({ error, path: this.path }, 'Failed to write session recording')
+      })
+    }
+    return this.stream
+  }
+}
+
+export async function readRecording(path: string): Promise<RecordedFrame[]> {
+  const contents = await readFile(path, 'utf8')
+  return contents
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as RecordedFrame)
+}
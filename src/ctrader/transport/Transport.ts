@@ -0,0 +1,15 @@
+export interface TransportEvents {
+  open: () => void
+  message: (data: Buffer) => void
+  error: (error: Error) => void
+  close: (code: number, reason: string) => void
+}
+
+/** Carries framed ProtoMessages between ProtoOAClient and a cTrader endpoint. */
+export interface Transport {
+  open(): void
+  send(data: Buffer, callback?: (error?: Error) => void): void
+  close(code: number, reason: string): void
+  isOpen(): boolean
+  on<U extends keyof TransportEvents>(event: U, listener: TransportEvents[U]): this
+}
@@ -0,0 +1,42 @@
+import WebSocket from 'ws'
+import { EventEmitter } from 'events'
+import { Transport, TransportEvents } from './Transport'
+
+export declare interface WebSocketTransport {
+  on<U extends keyof TransportEvents>(event: U, listener: TransportEvents[U]): this
+  emit<U extends keyof TransportEvents>(event: U, ...args: Parameters<TransportEvents[U]>): boolean
+}
+
+export class WebSocketTransport extends EventEmitter implements Transport {
+  private url: string
+  private ws: WebSocket | null = null
+
+  constructor(url: string) {
+    super()
+    this.url = url
+  }
+
+  open(): void {
+    this.ws = new WebSocket(this.url, {
+      handshakeTimeout: 10000,
+      perMessageDeflate: false,
+    })
+
+    this.ws.on('open', () => this.emit('open'))
+    this.ws.on('message', (data: Buffer) => this.emit('message', data))
+    this.ws.on('error', (error: Error) => this.emit('error', error))
+    this.ws.on('close', (code: number, reason: Buffer) => this.emit('close', code, reason.toString()))
+  }
+
+  send(data: Buffer, callback?: (error?: Error) => void): void {
+    this.ws?.send(data, callback)
+  }
+
+  close(code: number, reason: string): void {
+    this.ws?.close(code, reason)
+  }
+
+  isOpen(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN
+  }
+}
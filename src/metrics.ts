@@ -0,0 +1,238 @@
+type Labels = Record<string, string>
+
+const DEFAULT_LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) {
+    return ''
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+abstract class Metric {
+  readonly name: string
+  readonly help: string
+  abstract readonly type: 'counter' | 'gauge' | 'histogram'
+
+  constructor(name: string, help: string) {
+    this.name = name
+    this.help = help
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSamples(),
+    ]
+  }
+
+  protected abstract renderSamples(): string[]
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter'
+  private values: Map<string, { labels: Labels; value: number }> = new Map()
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels)
+    const entry = this.values.get(key)
+    if (entry) {
+      entry.value += value
+    } else {
+      this.values.set(key, { labels, value })
+    }
+  }
+
+  snapshot(): { labels: Labels; value: number }[] {
+    return Array.from(this.values.values())
+  }
+
+  protected renderSamples(): string[] {
+    return this.snapshot().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge'
+  private values: Map<string, { labels: Labels; value: number }> = new Map()
+  private collector: ((gauge: Gauge) => void) | null = null
+
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels, value })
+  }
+
+  reset(): void {
+    this.values.clear()
+  }
+
+  collect(collector: (gauge: Gauge) => void): void {
+    this.collector = collector
+  }
+
+  snapshot(): { labels: Labels; value: number }[] {
+    if (this.collector) {
+      this.reset()
+      this.collector(this)
+    }
+    return Array.from(this.values.values())
+  }
+
+  protected renderSamples(): string[] {
+    return this.snapshot().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`)
+  }
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram'
+  private buckets: number[]
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map()
+
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_LATENCY_BUCKETS) {
+    super(name, help)
+    this.buckets = [...buckets].sort((a, b) => a - b)
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels)
+    let entry = this.series.get(key)
+    if (!entry) {
+      entry = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 }
+      this.series.set(key, entry)
+    }
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        entry!.counts[index]++
+      }
+    })
+    entry.sum += value
+    entry.count++
+  }
+
+  protected renderSamples(): string[] {
+    const lines: string[] = []
+
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`)
+      })
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`)
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`)
+    }
+
+    return lines
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = []
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help))
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help))
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets))
+  }
+
+  render(): string {
+    return this.metrics.map(metric => metric.render().join('\n')).join('\n') + '\n'
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric)
+    return metric
+  }
+}
+
+export const registry = new MetricsRegistry()
+
+export const metrics = {
+  inboundMessages: registry.counter(
+    'bridge_inbound_messages_total',
+    'Client WebSocket messages received, by message type'
+  ),
+  outboundMessages: registry.counter(
+    'bridge_outbound_messages_total',
+    'ServerMessages sent to clients, by message type'
+  ),
+  handshakeRejections: registry.counter(
+    'bridge_handshake_rejections_total',
+    'WebSocket upgrade requests rejected during the handshake, by reason'
+  ),
+  conflatedSpots: registry.counter(
+    'bridge_conflated_spot_events_total',
+    'Spot events superseded by a newer tick before reaching a client'
+  ),
+  slowConsumerDisconnects: registry.counter(
+    'bridge_slow_consumer_disconnects_total',
+    'Client connections terminated for exceeding outbound buffer limits'
+  ),
+  upstreamReconnects: registry.counter(
+    'bridge_upstream_reconnects_total',
+    'Reconnect attempts scheduled for upstream cTrader connections'
+  ),
+  ctraderErrors: registry.counter(
+    'bridge_ctrader_errors_total',
+    'Error responses and order errors received from cTrader, by error code'
+  ),
+  orderLatency: registry.histogram(
+    'bridge_order_round_trip_seconds',
+    'Time from sending a trading request to cTrader until its terminal outcome'
+  ),
+  connections: registry.gauge(
+    'bridge_client_connections',
+    'Client WebSocket connections, by state'
+  ),
+  accountSubscriptions: registry.gauge(
+    'bridge_account_spot_subscriptions',
+    'Active spot subscriptions on each upstream account session'
+  ),
+  clientRtt: registry.histogram(
+    'bridge_client_rtt_seconds',
+    'WebSocket ping round-trip time observed across all clients',
+    [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5]
+  ),
+  clientQueueDepth: registry.gauge(
+    'bridge_client_outbound_queue_depth',
+    'Messages waiting in outbound queues, summed over all clients'
+  ),
+  clientQueueDepthMax: registry.gauge(
+    'bridge_client_outbound_queue_depth_max',
+    'Messages waiting in the deepest single client outbound queue'
+  ),
+  clientDroppedMessages: registry.counter(
+    'bridge_client_dropped_messages_total',
+    'Messages dropped before delivery to a client'
+  ),
+  clientResumes: registry.counter(
+    'bridge_client_resumes_total',
+    'Client sessions resumed on a new socket'
+  ),
+  processMemory: registry.gauge(
+    'bridge_process_resident_memory_bytes',
+    'Resident memory size of the bridge process'
+  ),
+  processUptime: registry.gauge(
+    'bridge_process_uptime_seconds',
+    'Seconds since the bridge process started'
+  ),
+}
+
+metrics.processMemory.collect(gauge => gauge.set({}, process.memoryUsage().rss))
+metrics.processUptime.collect(gauge => gauge.set({}, process.uptime()))
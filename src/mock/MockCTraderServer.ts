@@ -0,0 +1,922 @@
+import * as protobuf from 'protobufjs'
+import { createServer, Server as TcpServer, Socket } from 'net'
+import pino from 'pino'
+import WebSocket, { WebSocketServer } from 'ws'
+import { loadProtoSchema } from '../ctrader/protoSchema'
+
+// The mock runs without the bridge's Supabase and API settings, so it keeps its own logger instead of the shared one.
+const logger = pino({ level: process.env.LOG_LEVEL || 'info' })
+
+export interface MockTick {
+  bid: number
+  ask: number
+}
+
+export interface MockSymbol {
+  symbolId: number
+  symbolName: string
+  digits: number
+  pipPosition: number
+  lotSize: number
+  minVolume: number
+  stepVolume: number
+  maxVolume: number
+  /** Prices cycled through, one step per tick interval. */
+  ticks: MockTick[]
+}
+
+export interface MockAccount {
+  ctidTraderAccountId: number
+  traderLogin: number
+  /** Balance in deposit currency units, e.g. 10000.5. */
+  balance: number
+  moneyDigits: number
+  leverageInCents: number
+  isLive: boolean
+}
+
+export interface MockError {
+  errorCode: string
+  description?: string
+}
+
+export interface MockScenario {
+  /** When set, application auth only succeeds with these credentials. */
+  clientId?: string
+  clientSecret?: string
+  accounts: MockAccount[]
+  symbols: MockSymbol[]
+  tickIntervalMs: number
+  /** Request types answered with an error instead of being handled, keyed by payload type name. */
+  errors: Record<string, MockError>
+  /** Request types handled only after this many milliseconds, keyed by payload type name. */
+  delays: Record<string, number>
+  /** Request types that make the server drop the connection instead of replying. */
+  disconnectOn: string[]
+  /** Drops each connection this long after it opens; 0 keeps connections open. */
+  disconnectAfterMs: number
+}
+
+export const DEFAULT_SCENARIO: MockScenario = {
+  accounts: [
+    {
+      ctidTraderAccountId: 1001,
+      traderLogin: 5001001,
+      balance: 10000,
+      moneyDigits: 2,
+      leverageInCents: 10000,
+      isLive: false,
+    },
+  ],
+  symbols: [
+    {
+      symbolId: 1,
+      symbolName: 'EURUSD',
+      digits: 5,
+      pipPosition: 4,
+      lotSize: 10000000,
+      minVolume: 100000,
+      stepVolume: 100000,
+      maxVolume: 10000000000,
+      ticks: [
+        { bid: 1.08512, ask: 1.08514 },
+        { bid: 1.08518, ask: 1.0852 },
+        { bid: 1.08509, ask: 1.08511 },
+      ],
+    },
+    {
+      symbolId: 2,
+      symbolName: 'GBPUSD',
+      digits: 5,
+      pipPosition: 4,
+      lotSize: 10000000,
+      minVolume: 100000,
+      stepVolume: 100000,
+      maxVolume: 10000000000,
+      ticks: [
+        { bid: 1.26401, ask: 1.26404 },
+        { bid: 1.26396, ask: 1.26399 },
+      ],
+    },
+  ],
+  tickIntervalMs: 1000,
+  errors: {},
+  delays: {},
+  disconnectOn: [],
+  disconnectAfterMs: 0,
+}
+
+interface MockConnection {
+  id: number
+  transport: 'websocket' | 'tcp'
+  /** Whether frames carry the 4-byte length prefix; raw WebSocket clients send bare ProtoMessages. */
+  prefixed: boolean
+  write: (frame: Buffer) => void
+  end: () => void
+  appAuthed: boolean
+  accounts: Set<number>
+  spots: Map<number, Set<number>>
+  disconnectTimer: NodeJS.Timeout | null
+}
+
+interface MockPosition {
+  positionId: number
+  symbolId: number
+  tradeSide: string
+  volume: number
+  entryPrice: number
+  openTimestamp: number
+  stopLoss?: number
+  takeProfit?: number
+  label?: string
+  comment?: string
+}
+
+interface MockOrder {
+  orderId: number
+  symbolId: number
+  tradeSide: string
+  volume: number
+  orderType: string
+  openTimestamp: number
+  limitPrice?: number
+  stopPrice?: number
+  stopLoss?: number
+  takeProfit?: number
+  label?: string
+  comment?: string
+  clientOrderId?: string
+}
+
+interface AccountState {
+  account: MockAccount
+  balance: number
+  positions: Map<number, MockPosition>
+  orders: Map<number, MockOrder>
+  deals: Record<string, unknown>[]
+}
+
+const ACCOUNT_SCOPED_REQUESTS = [
+  'PROTO_OA_TRADER_REQ',
+  'PROTO_OA_RECONCILE_REQ',
+  'PROTO_OA_SYMBOLS_LIST_REQ',
+  'PROTO_OA_SYMBOL_BY_ID_REQ',
+  'PROTO_OA_SUBSCRIBE_SPOTS_REQ',
+  'PROTO_OA_UNSUBSCRIBE_SPOTS_REQ',
+  'PROTO_OA_NEW_ORDER_REQ',
+  'PROTO_OA_CLOSE_POSITION_REQ',
+  'PROTO_OA_AMEND_POSITION_SLTP_REQ',
+  'PROTO_OA_CANCEL_ORDER_REQ',
+  'PROTO_OA_AMEND_ORDER_REQ',
+  'PROTO_OA_DEAL_LIST_REQ',
+]
+
+const PRICE_SCALE = 100000
+
+/**
+ * A stand-in for the cTrader Open API that speaks the same ProtoMessage framing over WebSocket and plain TCP,
+ * so the bridges can be exercised offline. State lives in memory and is driven by a scenario.
+ */
+export class MockCTraderServer {
+  private scenario: MockScenario
+  private ProtoMessage!: protobuf.Type
+  private payloadTypes: Map<number, string> = new Map()
+  private payloadTypeIds: Map<string, number> = new Map()
+  private messageTypes: Map<string, protobuf.Type> = new Map()
+  private wss: WebSocketServer | null = null
+  private tcpServer: TcpServer | null = null
+  private connections: Map<number, MockConnection> = new Map()
+  private accounts: Map<number, AccountState> = new Map()
+  private tickIndex: Map<number, number> = new Map()
+  private tickTimer: NodeJS.Timeout | null = null
+  private connectionCounter = 0
+  private idCounter = 0
+
+  constructor(scenario: Partial<MockScenario> = {}) {
+    this.scenario = {
+      ...DEFAULT_SCENARIO,
+      ...scenario,
+      errors: { ...(scenario.errors || DEFAULT_SCENARIO.errors) },
+      delays: { ...(scenario.delays || DEFAULT_SCENARIO.delays) },
+    }
+    this.reset()
+  }
+
+  async start(port: number, tcpPort?: number): Promise<void> {
+    await this.loadProtos()
+
+    this.wss = new WebSocketServer({ port, perMessageDeflate: false })
+    this.wss.on('connection', (ws: WebSocket) => this.acceptWebSocket(ws))
+    await new Promise<void>((resolve, reject) => {
+      this.wss!.once('listening', resolve)
+      this.wss!.once('error', reject)
+    })
+
+    if (tcpPort !== undefined) {
+      this.tcpServer = createServer(socket => this.acceptTcp(socket))
+      await new Promise<void>((resolve, reject) => {
+        this.tcpServer!.once('error', reject)
+        this.tcpServer!.listen(tcpPort, resolve)
+      })
+    }
+
+    this.tickTimer = setInterval(() => this.publishTicks(), this.scenario.tickIntervalMs)
+    logger.info({ port, tcpPort }, 'Mock cTrader server listening')
+  }
+
+  async stop(): Promise<void> {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer)
+      this.tickTimer = null
+    }
+
+    this.dropConnections()
+
+    await Promise.all([
+      new Promise<void>(resolve => (this.wss ? this.wss.close(() => resolve()) : resolve())),
+      new Promise<void>(resolve => (this.tcpServer ? this.tcpServer.close(() => resolve()) : resolve())),
+    ])
+    this.wss = null
+    this.tcpServer = null
+  }
+
+  /** Restores balances, positions and orders to the scenario's starting state. */
+  reset(): void {
+    this.accounts.clear()
+    for (const account of this.scenario.accounts) {
+      this.accounts.set(account.ctidTraderAccountId, {
+        account,
+        balance: Math.round(account.balance * 10 ** account.moneyDigits),
+        positions: new Map(),
+        orders: new Map(),
+        deals: [],
+      })
+    }
+
+    this.tickIndex.clear()
+    for (const symbol of this.scenario.symbols) {
+      this.tickIndex.set(symbol.symbolId, 0)
+    }
+  }
+
+  setError(payloadTypeName: string, error: MockError | null): void {
+    if (error) {
+      this.scenario.errors[payloadTypeName] = error
+    } else {
+      delete this.scenario.errors[payloadTypeName]
+    }
+  }
+
+  setDelay(payloadTypeName: string, delayMs: number | null): void {
+    if (delayMs) {
+      this.scenario.delays[payloadTypeName] = delayMs
+    } else {
+      delete this.scenario.delays[payloadTypeName]
+    }
+  }
+
+  dropConnections(): void {
+    for (const connection of this.connections.values()) {
+      connection.end()
+    }
+  }
+
+  getConnectionCount(): number {
+    return this.connections.size
+  }
+
+  private async loadProtos(): Promise<void> {
+    if (this.ProtoMessage) {
+      return
+    }
+
+    const schema = await loadProtoSchema()
+    this.ProtoMessage = schema.ProtoMessage
+    this.payloadTypes = schema.payloadTypeNames
+    this.payloadTypeIds = schema.payloadTypeIds
+    this.messageTypes = schema.messageTypes
+  }
+
+  private acceptWebSocket(ws: WebSocket): void {
+    let framingKnown = false
+    const connection = this.register('websocket', false, frame => ws.send(frame), () => ws.terminate())
+
+    ws.on('message', (data: Buffer) => {
+      if (!framingKnown) {
+        connection.prefixed = data.length >= 4 && data.readUInt32BE(0) === data.length - 4
+        framingKnown = true
+      }
+      this.handleFrame(connection, connection.prefixed ? data.subarray(4) : data)
+    })
+    ws.on('close', () => this.unregister(connection))
+    ws.on('error', (error) => logger.warn({ error, connectionId: connection.id }, 'Mock WebSocket error'))
+  }
+
+  private acceptTcp(socket: Socket): void {
+    let buffer = Buffer.alloc(0)
+    const connection = this.register('tcp', true, frame => socket.write(frame), () => socket.destroy())
+
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data])
+      while (buffer.length >= 4 && buffer.length >= 4 + buffer.readUInt32BE(0)) {
+        const length = buffer.readUInt32BE(0)
+        this.handleFrame(connection, buffer.subarray(4, 4 + length))
+        buffer = buffer.subarray(4 + length)
+      }
+    })
+    socket.on('close', () => this.unregister(connection))
+    socket.on('error', (error) => logger.warn({ error, connectionId: connection.id }, 'Mock TCP socket error'))
+  }
+
+  private register(
+    transport: MockConnection['transport'],
+    prefixed: boolean,
+    write: (frame: Buffer) => void,
+    end: () => void
+  ): MockConnection {
+    this.connectionCounter++
+    const connection: MockConnection = {
+      id: this.connectionCounter,
+      transport,
+      prefixed,
+      write,
+      end,
+      appAuthed: false,
+      accounts: new Set(),
+      spots: new Map(),
+      disconnectTimer: null,
+    }
+
+    if (this.scenario.disconnectAfterMs > 0) {
+      connection.disconnectTimer = setTimeout(() => {
+        logger.info({ connectionId: connection.id }, 'Dropping mock connection on schedule')
+        end()
+      }, this.scenario.disconnectAfterMs)
+    }
+
+    this.connections.set(connection.id, connection)
+    logger.info({ connectionId: connection.id, transport }, 'Mock client connected')
+    return connection
+  }
+
+  private unregister(connection: MockConnection): void {
+    if (connection.disconnectTimer) {
+      clearTimeout(connection.disconnectTimer)
+    }
+    this.connections.delete(connection.id)
+    logger.info({ connectionId: connection.id }, 'Mock client disconnected')
+  }
+
+  private handleFrame(connection: MockConnection, data: Buffer): void {
+    let payloadType: number
+    let request: Record<string, any>
+    let clientMsgId: string | undefined
+    try {
+      const message = this.ProtoMessage.decode(data) as any
+      payloadType = message.payloadType
+      clientMsgId = message.clientMsgId || undefined
+      const type = this.messageTypes.get(this.payloadTypes.get(payloadType) || '')
+      request = type
+        ? type.toObject(type.decode(message.payload || Buffer.alloc(0)), { longs: Number, enums: String })
+        : {}
+    } catch (error) {
+      logger.warn({ error, connectionId: connection.id }, 'Discarding malformed frame')
+      return
+    }
+
+    const name = this.payloadTypes.get(payloadType)
+    logger.debug({ connectionId: connection.id, type: name, clientMsgId }, 'Mock request received')
+
+    if (!name) {
+      this.sendError(connection, clientMsgId, 'UNSUPPORTED_MESSAGE', `Unknown payload type ${payloadType}`)
+      return
+    }
+
+    if (this.scenario.disconnectOn.includes(name)) {
+      logger.info({ connectionId: connection.id, type: name }, 'Dropping mock connection as scripted')
+      connection.end()
+      return
+    }
+
+    const delayMs = this.scenario.delays[name]
+    if (delayMs) {
+      setTimeout(() => this.handleRequest(connection, name, request, clientMsgId), delayMs)
+      return
+    }
+
+    this.handleRequest(connection, name, request, clientMsgId)
+  }
+
+  private handleRequest(connection: MockConnection, name: string, request: Record<string, any>, clientMsgId?: string): void {
+    const scriptedError = this.scenario.errors[name]
+    if (scriptedError) {
+      this.sendError(connection, clientMsgId, scriptedError.errorCode, scriptedError.description, request.ctidTraderAccountId)
+      return
+    }
+
+    if (ACCOUNT_SCOPED_REQUESTS.includes(name) && !connection.accounts.has(request.ctidTraderAccountId)) {
+      this.sendError(connection, clientMsgId, 'ACCOUNT_NOT_AUTHORIZED', 'Account is not authorized', request.ctidTraderAccountId)
+      return
+    }
+
+    const state = this.accounts.get(request.ctidTraderAccountId)!
+
+    switch (name) {
+      case 'HEARTBEAT_EVENT':
+        this.send(connection, 'HEARTBEAT_EVENT', {})
+        break
+
+      case 'PROTO_OA_VERSION_REQ':
+        this.send(connection, 'PROTO_OA_VERSION_RES', { version: '100' }, clientMsgId)
+        break
+
+      case 'PROTO_OA_APPLICATION_AUTH_REQ':
+        this.handleApplicationAuth(connection, request, clientMsgId)
+        break
+
+      case 'PROTO_OA_GET_ACCOUNTS_BY_ACCESS_TOKEN_REQ':
+        this.send(connection, 'PROTO_OA_GET_ACCOUNTS_BY_ACCESS_TOKEN_RES', {
+          accessToken: request.accessToken,
+          permissionScope: 'SCOPE_TRADE',
+          ctidTraderAccount: this.scenario.accounts.map(account => ({
+            ctidTraderAccountId: account.ctidTraderAccountId,
+            isLive: account.isLive,
+            traderLogin: account.traderLogin,
+            brokerTitleShort: 'Mock',
+          })),
+        }, clientMsgId)
+        break
+
+      case 'PROTO_OA_ACCOUNT_AUTH_REQ':
+        this.handleAccountAuth(connection, request, clientMsgId)
+        break
+
+      case 'PROTO_OA_TRADER_REQ':
+        this.send(connection, 'PROTO_OA_TRADER_RES', {
+          ctidTraderAccountId: state.account.ctidTraderAccountId,
+          trader: {
+            ctidTraderAccountId: state.account.ctidTraderAccountId,
+            balance: state.balance,
+            depositAssetId: 1,
+            leverageInCents: state.account.leverageInCents,
+            traderLogin: state.account.traderLogin,
+            brokerName: 'Mock',
+            moneyDigits: state.account.moneyDigits,
+          },
+        }, clientMsgId)
+        break
+
+      case 'PROTO_OA_RECONCILE_REQ':
+        this.send(connection, 'PROTO_OA_RECONCILE_RES', {
+          ctidTraderAccountId: state.account.ctidTraderAccountId,
+          position: Array.from(state.positions.values()).map(position => this.positionBody(state, position, 'POSITION_STATUS_OPEN')),
+          order: Array.from(state.orders.values()).map(order => this.orderBody(order, 'ORDER_STATUS_ACCEPTED')),
+        }, clientMsgId)
+        break
+
+      case 'PROTO_OA_SYMBOLS_LIST_REQ':
+        this.send(connection, 'PROTO_OA_SYMBOLS_LIST_RES', {
+          ctidTraderAccountId: state.account.ctidTraderAccountId,
+          symbol: this.scenario.symbols.map(symbol => ({
+            symbolId: symbol.symbolId,
+            symbolName: symbol.symbolName,
+            enabled: true,
+          })),
+        }, clientMsgId)
+        break
+
+      case 'PROTO_OA_SYMBOL_BY_ID_REQ':
+        this.send(connection, 'PROTO_OA_SYMBOL_BY_ID_RES', {
+          ctidTraderAccountId: state.account.ctidTraderAccountId,
+          symbol: this.scenario.symbols
+            .filter(symbol => (request.symbolId || []).includes(symbol.symbolId))
+            .map(({ symbolId, digits, pipPosition, lotSize, minVolume, stepVolume, maxVolume }) => ({
+              symbolId,
+              digits,
+              pipPosition,
+              lotSize,
+              minVolume,
+              stepVolume,
+              maxVolume,
+            })),
+        }, clientMsgId)
+        break
+
+      case 'PROTO_OA_SUBSCRIBE_SPOTS_REQ':
+        this.handleSubscribeSpots(connection, state, request, clientMsgId)
+        break
+
+      case 'PROTO_OA_UNSUBSCRIBE_SPOTS_REQ': {
+        const subscribed = connection.spots.get(state.account.ctidTraderAccountId)
+        for (const symbolId of request.symbolId || []) {
+          subscribed?.delete(symbolId)
+        }
+        this.send(connection, 'PROTO_OA_UNSUBSCRIBE_SPOTS_RES', { ctidTraderAccountId: state.account.ctidTraderAccountId }, clientMsgId)
+        break
+      }
+
+      case 'PROTO_OA_NEW_ORDER_REQ':
+        this.handleNewOrder(connection, state, request, clientMsgId)
+        break
+
+      case 'PROTO_OA_CLOSE_POSITION_REQ':
+        this.handleClosePosition(connection, state, request, clientMsgId)
+        break
+
+      case 'PROTO_OA_AMEND_POSITION_SLTP_REQ': {
+        const position = state.positions.get(request.positionId)
+        if (!position) {
+          this.sendError(connection, clientMsgId, 'POSITION_NOT_FOUND', 'Position not found', request.ctidTraderAccountId)
+          break
+        }
+        position.stopLoss = request.stopLoss
+        position.takeProfit = request.takeProfit
+        this.publishExecution(connection, state, 'ORDER_REPLACED', { position: this.positionBody(state, position, 'POSITION_STATUS_OPEN') }, clientMsgId)
+        break
+      }
+
+      case 'PROTO_OA_CANCEL_ORDER_REQ': {
+        const order = state.orders.get(request.orderId)
+        if (!order) {
+          this.sendError(connection, clientMsgId, 'ORDER_NOT_FOUND', 'Order not found', request.ctidTraderAccountId)
+          break
+        }
+        state.orders.delete(order.orderId)
+        this.publishExecution(connection, state, 'ORDER_CANCELLED', { order: this.orderBody(order, 'ORDER_STATUS_CANCELLED') }, clientMsgId)
+        break
+      }
+
+      case 'PROTO_OA_AMEND_ORDER_REQ': {
+        const order = state.orders.get(request.orderId)
+        if (!order) {
+          this.sendError(connection, clientMsgId, 'ORDER_NOT_FOUND', 'Order not found', request.ctidTraderAccountId)
+          break
+        }
+        for (const field of ['volume', 'limitPrice', 'stopPrice', 'stopLoss', 'takeProfit'] as const) {
+          if (request[field] !== undefined) {
+            order[field] = request[field]
+          }
+        }
+        this.publishExecution(connection, state, 'ORDER_REPLACED', { order: this.orderBody(order, 'ORDER_STATUS_ACCEPTED') }, clientMsgId)
+        break
+      }
+
+      case 'PROTO_OA_DEAL_LIST_REQ':
+        this.send(connection, 'PROTO_OA_DEAL_LIST_RES', {
+          ctidTraderAccountId: state.account.ctidTraderAccountId,
+          deal: state.deals.filter(deal => {
+            const executedAt = deal.executionTimestamp as number
+            return executedAt >= request.fromTimestamp && executedAt <= request.toTimestamp
+          }),
+          hasMore: false,
+        }, clientMsgId)
+        break
+
+      default:
+        logger.warn({ connectionId: connection.id, type: name }, 'Mock server does not handle this request')
+        this.sendError(connection, clientMsgId, 'UNSUPPORTED_MESSAGE', `${name} is not supported by the mock server`)
+    }
+  }
+
+  private handleApplicationAuth(connection: MockConnection, request: Record<string, any>, clientMsgId?: string): void {
+    const { clientId, clientSecret } = this.scenario
+    if ((clientId && request.clientId !== clientId) || (clientSecret && request.clientSecret !== clientSecret)) {
+      this.sendError(connection, clientMsgId, 'CH_CLIENT_AUTH_FAILURE', 'Invalid client credentials')
+      return
+    }
+
+    connection.appAuthed = true
+    this.send(connection, 'PROTO_OA_APPLICATION_AUTH_RES', {}, clientMsgId)
+  }
+
+  private handleAccountAuth(connection: MockConnection, request: Record<string, any>, clientMsgId?: string): void {
+    if (!connection.appAuthed) {
+      this.sendError(connection, clientMsgId, 'CH_CLIENT_NOT_AUTHENTICATED', 'Application is not authenticated')
+      return
+    }
+
+    if (!this.accounts.has(request.ctidTraderAccountId)) {
+      this.sendError(connection, clientMsgId, 'CH_CTID_TRADER_ACCOUNT_NOT_FOUND', 'Account not found', request.ctidTraderAccountId)
+      return
+    }
+
+    connection.accounts.add(request.ctidTraderAccountId)
+    this.send(connection, 'PROTO_OA_ACCOUNT_AUTH_RES', { ctidTraderAccountId: request.ctidTraderAccountId }, clientMsgId)
+  }
+
+  private handleSubscribeSpots(
+    connection: MockConnection,
+    state: AccountState,
+    request: Record<string, any>,
+    clientMsgId?: string
+  ): void {
+    const accountId = state.account.ctidTraderAccountId
+    const symbolIds: number[] = request.symbolId || []
+    const unknown = symbolIds.find(symbolId => !this.findSymbol(symbolId))
+    if (unknown !== undefined) {
+      this.sendError(connection, clientMsgId, 'SYMBOL_NOT_FOUND', `Symbol ${unknown} not found`, accountId)
+      return
+    }
+
+    const subscribed = connection.spots.get(accountId) || new Set<number>()
+    connection.spots.set(accountId, subscribed)
+    symbolIds.forEach(symbolId => subscribed.add(symbolId))
+
+    this.send(connection, 'PROTO_OA_SUBSCRIBE_SPOTS_RES', { ctidTraderAccountId: accountId }, clientMsgId)
+    for (const symbolId of symbolIds) {
+      this.sendSpot(connection, accountId, symbolId)
+    }
+  }
+
+  private handleNewOrder(
+    connection: MockConnection,
+    state: AccountState,
+    request: Record<string, any>,
+    clientMsgId?: string
+  ): void {
+    const symbol = this.findSymbol(request.symbolId)
+    if (!symbol) {
+      this.sendError(connection, clientMsgId, 'SYMBOL_NOT_FOUND', `Symbol ${request.symbolId} not found`, request.ctidTraderAccountId)
+      return
+    }
+
+    if (request.volume < symbol.minVolume || request.volume > symbol.maxVolume || request.volume % symbol.stepVolume !== 0) {
+      this.publish(connection, state, 'PROTO_OA_ORDER_ERROR_EVENT', {
+        ctidTraderAccountId: state.account.ctidTraderAccountId,
+        errorCode: 'TRADING_BAD_VOLUME',
+        description: `Volume ${request.volume} is outside ${symbol.minVolume}-${symbol.maxVolume} or off step ${symbol.stepVolume}`,
+      }, clientMsgId)
+      return
+    }
+
+    const order: MockOrder = {
+      orderId: this.nextId(),
+      symbolId: request.symbolId,
+      tradeSide: request.tradeSide,
+      volume: request.volume,
+      orderType: request.orderType,
+      openTimestamp: Date.now(),
+      limitPrice: request.limitPrice,
+      stopPrice: request.stopPrice,
+      stopLoss: request.stopLoss,
+      takeProfit: request.takeProfit,
+      label: request.label,
+      comment: request.comment,
+      clientOrderId: request.clientOrderId,
+    }
+
+    if (order.orderType !== 'MARKET' && order.orderType !== 'MARKET_RANGE') {
+      state.orders.set(order.orderId, order)
+      this.publishExecution(connection, state, 'ORDER_ACCEPTED', { order: this.orderBody(order, 'ORDER_STATUS_ACCEPTED') }, clientMsgId)
+      return
+    }
+
+    const tick = this.currentTick(symbol)
+    const price = order.tradeSide === 'BUY' ? tick.ask : tick.bid
+    const direction = order.tradeSide === 'BUY' ? 1 : -1
+    const relativeStop = (distance: number | undefined, sign: number) =>
+      distance === undefined ? undefined : Number((price + sign * direction * distance / 100000).toFixed(symbol.digits))
+    const position: MockPosition = {
+      positionId: this.nextId(),
+      symbolId: order.symbolId,
+      tradeSide: order.tradeSide,
+      volume: order.volume,
+      entryPrice: price,
+      openTimestamp: order.openTimestamp,
+      stopLoss: order.stopLoss ?? relativeStop(request.relativeStopLoss, -1),
+      takeProfit: order.takeProfit ?? relativeStop(request.relativeTakeProfit, 1),
+      label: order.label,
+      comment: order.comment,
+    }
+    state.positions.set(position.positionId, position)
+
+    const deal = this.recordDeal(state, order.orderId, position, order.tradeSide, order.volume, price)
+    this.publishExecution(connection, state, 'ORDER_FILLED', {
+      order: { ...this.orderBody(order, 'ORDER_STATUS_FILLED'), executionPrice: price, executedVolume: order.volume, positionId: position.positionId },
+      position: this.positionBody(state, position, 'POSITION_STATUS_OPEN'),
+      deal,
+    }, clientMsgId)
+  }
+
+  private handleClosePosition(
+    connection: MockConnection,
+    state: AccountState,
+    request: Record<string, any>,
+    clientMsgId?: string
+  ): void {
+    const position = state.positions.get(request.positionId)
+    if (!position) {
+      this.sendError(connection, clientMsgId, 'POSITION_NOT_FOUND', 'Position not found', request.ctidTraderAccountId)
+      return
+    }
+
+    const volume = Math.min(request.volume, position.volume)
+    const tick = this.currentTick(this.findSymbol(position.symbolId)!)
+    const closingSide = position.tradeSide === 'BUY' ? 'SELL' : 'BUY'
+    const price = closingSide === 'BUY' ? tick.ask : tick.bid
+    const direction = position.tradeSide === 'BUY' ? 1 : -1
+    const grossProfit = Math.round((price - position.entryPrice) * direction * (volume / 100) * 10 ** state.account.moneyDigits)
+
+    state.balance += grossProfit
+    position.volume -= volume
+    if (position.volume === 0) {
+      state.positions.delete(position.positionId)
+    }
+
+    const orderId = this.nextId()
+    const deal = this.recordDeal(state, orderId, position, closingSide, volume, price, {
+      entryPrice: position.entryPrice,
+      grossProfit,
+      swap: 0,
+      commission: 0,
+      balance: state.balance,
+      closedVolume: volume,
+      moneyDigits: state.account.moneyDigits,
+    })
+
+    this.publishExecution(connection, state, 'ORDER_FILLED', {
+      order: {
+        ...this.orderBody(
+          { orderId, symbolId: position.symbolId, tradeSide: closingSide, volume, orderType: 'MARKET', openTimestamp: Date.now() },
+          'ORDER_STATUS_FILLED'
+        ),
+        executionPrice: price,
+        executedVolume: volume,
+        positionId: position.positionId,
+        closingOrder: true,
+      },
+      position: this.positionBody(state, position, position.volume === 0 ? 'POSITION_STATUS_CLOSED' : 'POSITION_STATUS_OPEN'),
+      deal,
+    }, clientMsgId)
+  }
+
+  private recordDeal(
+    state: AccountState,
+    orderId: number,
+    position: MockPosition,
+    tradeSide: string,
+    volume: number,
+    price: number,
+    closePositionDetail?: Record<string, unknown>
+  ): Record<string, unknown> {
+    const now = Date.now()
+    const deal = {
+      dealId: this.nextId(),
+      orderId,
+      positionId: position.positionId,
+      volume,
+      filledVolume: volume,
+      symbolId: position.symbolId,
+      createTimestamp: now,
+      executionTimestamp: now,
+      executionPrice: price,
+      tradeSide,
+      dealStatus: 'FILLED',
+      commission: 0,
+      closePositionDetail,
+      moneyDigits: state.account.moneyDigits,
+    }
+    state.deals.push(deal)
+    return deal
+  }
+
+  private orderBody(order: MockOrder, orderStatus: string): Record<string, unknown> {
+    return {
+      orderId: order.orderId,
+      tradeData: {
+        symbolId: order.symbolId,
+        volume: order.volume,
+        tradeSide: order.tradeSide,
+        openTimestamp: order.openTimestamp,
+        label: order.label,
+        comment: order.comment,
+      },
+      orderType: order.orderType,
+      orderStatus,
+      limitPrice: order.limitPrice,
+      stopPrice: order.stopPrice,
+      stopLoss: order.stopLoss,
+      takeProfit: order.takeProfit,
+      clientOrderId: order.clientOrderId,
+    }
+  }
+
+  private positionBody(state: AccountState, position: MockPosition, positionStatus: string): Record<string, unknown> {
+    return {
+      positionId: position.positionId,
+      tradeData: {
+        symbolId: position.symbolId,
+        volume: position.volume,
+        tradeSide: position.tradeSide,
+        openTimestamp: position.openTimestamp,
+        label: position.label,
+        comment: position.comment,
+      },
+      positionStatus,
+      swap: 0,
+      price: position.entryPrice,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      commission: 0,
+      moneyDigits: state.account.moneyDigits,
+    }
+  }
+
+  private publishExecution(
+    connection: MockConnection,
+    state: AccountState,
+    executionType: string,
+    details: Record<string, unknown>,
+    clientMsgId?: string
+  ): void {
+    this.publish(connection, state, 'PROTO_OA_EXECUTION_EVENT', {
+      ctidTraderAccountId: state.account.ctidTraderAccountId,
+      executionType,
+      ...details,
+    }, clientMsgId)
+  }
+
+  /** Sends an event to the requesting connection with its clientMsgId and to every other connection on the account without. */
+  private publish(
+    origin: MockConnection,
+    state: AccountState,
+    payloadTypeName: string,
+    body: Record<string, unknown>,
+    clientMsgId?: string
+  ): void {
+    for (const connection of this.connections.values()) {
+      if (connection.accounts.has(state.account.ctidTraderAccountId)) {
+        this.send(connection, payloadTypeName, body, connection === origin ? clientMsgId : undefined)
+      }
+    }
+  }
+
+  private publishTicks(): void {
+    for (const symbol of this.scenario.symbols) {
+      this.tickIndex.set(symbol.symbolId, ((this.tickIndex.get(symbol.symbolId) || 0) + 1) % Math.max(symbol.ticks.length, 1))
+    }
+
+    for (const connection of this.connections.values()) {
+      for (const [accountId, symbolIds] of connection.spots.entries()) {
+        for (const symbolId of symbolIds) {
+          this.sendSpot(connection, accountId, symbolId)
+        }
+      }
+    }
+  }
+
+  private sendSpot(connection: MockConnection, accountId: number, symbolId: number): void {
+    const tick = this.currentTick(this.findSymbol(symbolId)!)
+    this.send(connection, 'PROTO_OA_SPOT_EVENT', {
+      ctidTraderAccountId: accountId,
+      symbolId,
+      bid: Math.round(tick.bid * PRICE_SCALE),
+      ask: Math.round(tick.ask * PRICE_SCALE),
+      timestamp: Date.now(),
+    })
+  }
+
+  private sendError(
+    connection: MockConnection,
+    clientMsgId: string | undefined,
+    errorCode: string,
+    description?: string,
+    ctidTraderAccountId?: number
+  ): void {
+    this.send(connection, 'PROTO_OA_ERROR_RES', { ctidTraderAccountId, errorCode, description }, clientMsgId)
+  }
+
+  private send(connection: MockConnection, payloadTypeName: string, body: Record<string, unknown>, clientMsgId?: string): void {
+    const type = this.messageTypes.get(payloadTypeName)
+    if (!type) {
+      throw new Error(`No message type for ${payloadTypeName}`)
+    }
+
+    const payload = type.encode(type.fromObject(body)).finish()
+    const messageBytes = this.ProtoMessage.encode(
+      this.ProtoMessage.create({ payloadType: this.payloadTypeIds.get(payloadTypeName), payload, clientMsgId })
+    ).finish()
+
+    if (!connection.prefixed) {
+      connection.write(Buffer.from(messageBytes))
+      return
+    }
+
+    const lengthBuffer = Buffer.allocUnsafe(4)
+    lengthBuffer.writeUInt32BE(messageBytes.length, 0)
+    connection.write(Buffer.concat([lengthBuffer, Buffer.from(messageBytes)]))
+  }
+
+  private findSymbol(symbolId: number): MockSymbol | undefined {
+    return this.scenario.symbols.find(symbol => symbol.symbolId === symbolId)
+  }
+
+  private currentTick(symbol: MockSymbol): MockTick {
+    return symbol.ticks[this.tickIndex.get(symbol.symbolId) || 0] || { bid: 1, ask: 1 }
+  }
+
+  private nextId(): number {
+    this.idCounter++
+    return 100000 + this.idCounter
+  }
+}
@@ -0,0 +1,25 @@
+import { readFileSync } from 'fs'
+import { MockCTraderServer, MockScenario } from './MockCTraderServer'
+
+async function main() {
+  const port = parseInt(process.env.MOCK_CTRADER_PORT || '5035', 10)
+  const tcpPort = parseInt(process.env.MOCK_CTRADER_TCP_PORT || '5036', 10)
+  const scenarioPath = process.env.MOCK_CTRADER_SCENARIO
+
+  const scenario: Partial<MockScenario> = scenarioPath ? JSON.parse(readFileSync(scenarioPath, 'utf8')) : {}
+  const server = new MockCTraderServer(scenario)
+  await server.start(port, tcpPort)
+
+  const shutdown = async () => {
+    await server.stop()
+    process.exit(0)
+  }
+
+  process.on('SIGTERM', shutdown)
+  process.on('SIGINT', shutdown)
+}
+
+main().catch((error) => {
+  console.error('Failed to start mock cTrader server', error)
+  process.exit(1)
+})
@@ -0,0 +1,158 @@
+import { config } from '../config'
+import { logger } from '../logger'
+import { SupabaseClient } from '../supabase/SupabaseClient'
+import { SessionClient } from '../ctrader/RemoteSessionClient'
+import { OrderPayload, RiskLimits, RiskViolation } from '../types'
+
+/** The fields of an amendPosition or amendOrder request the risk limits apply to. */
+export interface RiskAmendment {
+  volume?: number
+  stopLoss?: number
+  relativeStopLoss?: number
+}
+
+export class RiskRejectedError extends Error {
+  readonly violations: RiskViolation[]
+
+  constructor(violations: RiskViolation[]) {
+    super(violations.map(violation => violation.message).join('; '))
+    this.name = 'RiskRejectedError'
+    this.violations = violations
+  }
+}
+
+function defaultLimits(): RiskLimits {
+  const { maxOrderVolume, maxOpenPositions, allowedSymbols, deniedSymbols, maxDailyLoss, requireStopLoss } = config.risk
+  return { maxOrderVolume, maxOpenPositions, allowedSymbols, deniedSymbols, maxDailyLoss, requireStopLoss }
+}
+
+function volumeViolation(limits: RiskLimits, volume?: number): RiskViolation | null {
+  if (limits.maxOrderVolume > 0 && volume !== undefined && volume > limits.maxOrderVolume) {
+    return {
+      rule: 'maxOrderVolume',
+      message: `Order volume ${volume} exceeds the limit of ${limits.maxOrderVolume}`,
+      limit: limits.maxOrderVolume,
+      actual: volume,
+    }
+  }
+  return null
+}
+
+function stopLossViolation(limits: RiskLimits, request: RiskAmendment): RiskViolation | null {
+  if (limits.requireStopLoss && request.stopLoss === undefined && request.relativeStopLoss === undefined) {
+    return { rule: 'stopLossRequired', message: 'A stop loss is required on every order' }
+  }
+  return null
+}
+
+function startOfUtcDay(): number {
+  const now = new Date()
+  return Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+}
+
+export class RiskEngine {
+  private supabaseClient: SupabaseClient
+  private limits: Map<string, { limits: RiskLimits; loadedAt: number }> = new Map()
+
+  constructor(supabaseClient: SupabaseClient) {
+    this.supabaseClient = supabaseClient
+  }
+
+  /** Falls back to cached limits for up to RISK_LIMITS_MAX_STALE_MS, then throws RiskRejectedError. */
+  async getLimits(userId: string): Promise<RiskLimits> {
+    const cached = this.limits.get(userId)
+    if (cached && Date.now() - cached.loadedAt < config.risk.limitsCacheTtlMs) {
+      return cached.limits
+    }
+
+    try {
+      const stored = await this.supabaseClient.getRiskLimits(userId)
+      const limits = { ...defaultLimits(), ...stored }
+      this.limits.set(userId, { limits, loadedAt: Date.now() })
+      return limits
+    } catch (error) {
+      if (cached && Date.now() - cached.loadedAt < config.risk.limitsMaxStaleMs) {
+        logger.error({ error, userId }, 'Failed to load risk limits, using last known limits')
+        return cached.limits
+      }
+
+      logger.error({ error, userId }, 'Failed to load risk limits, rejecting order')
+      throw new RiskRejectedError([
+        { rule: 'limitsUnavailable', message: 'Risk limits could not be loaded, try again shortly' },
+      ])
+    }
+  }
+
+  clearCache(userId: string): void {
+    this.limits.delete(userId)
+    logger.debug({ userId }, 'Risk limits cache cleared')
+  }
+
+  /** Throws RiskRejectedError listing every limit the order would breach. */
+  async checkOrder(userId: string, order: OrderPayload, client: SessionClient): Promise<void> {
+    const limits = await this.getLimits(userId)
+    const violations: RiskViolation[] = []
+
+    const volume = volumeViolation(limits, order.volume)
+    if (volume) {
+      violations.push(volume)
+    }
+
+    if (limits.allowedSymbols.length > 0 && !limits.allowedSymbols.includes(order.symbolId)) {
+      violations.push({ rule: 'symbolNotAllowed', message: `Symbol ${order.symbolId} is not in the allowed list` })
+    }
+
+    if (limits.deniedSymbols.includes(order.symbolId)) {
+      violations.push({ rule: 'symbolDenied', message: `Symbol ${order.symbolId} is not tradable` })
+    }
+
+    const stopLoss = stopLossViolation(limits, order)
+    if (stopLoss) {
+      violations.push(stopLoss)
+    }
+
+    if (limits.maxOpenPositions > 0) {
+      const { positions } = await client.reconcile()
+      if (positions.length >= limits.maxOpenPositions) {
+        violations.push({
+          rule: 'maxOpenPositions',
+          message: `${positions.length} positions are open, the limit is ${limits.maxOpenPositions}`,
+          limit: limits.maxOpenPositions,
+          actual: positions.length,
+        })
+      }
+    }
+
+    if (limits.maxDailyLoss > 0) {
+      const loss = -(await client.getRealizedPnl(startOfUtcDay()))
+      if (loss >= limits.maxDailyLoss) {
+        violations.push({
+          rule: 'maxDailyLoss',
+          message: `Realized loss today of ${loss} has reached the limit of ${limits.maxDailyLoss}`,
+          limit: limits.maxDailyLoss,
+          actual: loss,
+        })
+      }
+    }
+
+    if (violations.length > 0) {
+      logger.warn({ userId, symbolId: order.symbolId, rules: violations.map(v => v.rule) }, 'Order rejected by risk checks')
+      throw new RiskRejectedError(violations)
+    }
+  }
+
+  /**
+   * Applies the volume and stop loss limits to an amendment. cTrader replaces a position's stops on every amend,
+   * so an amendment without a stop loss would remove it; order amendments are held to the same rule.
+   */
+  async checkAmendment(userId: string, amendment: RiskAmendment): Promise<void> {
+    const limits = await this.getLimits(userId)
+    const violations = [volumeViolation(limits, amendment.volume), stopLossViolation(limits, amendment)]
+      .filter((violation): violation is RiskViolation => violation !== null)
+
+    if (violations.length > 0) {
+      logger.warn({ userId, rules: violations.map(v => v.rule) }, 'Amendment rejected by risk checks')
+      throw new RiskRejectedError(violations)
+    }
+  }
+}
@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs'
+import { createHmac, createPublicKey, timingSafeEqual, verify, JsonWebKey, KeyObject } from 'crypto'
+import { config } from '../config'
+import { logger } from '../logger'
+
+interface JwtHeader {
+  alg?: string
+  kid?: string
+  typ?: string
+}
+
+export interface JwtClaims {
+  sub?: string
+  exp?: number
+  nbf?: number
+  iss?: string
+  aud?: string | string[]
+  role?: string
+  [claim: string]: unknown
+}
+
+export interface VerifiedToken {
+  userId: string
+  expiresAt: Date
+  claims: JwtClaims
+}
+
+export class JwtVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'JwtVerificationError'
+  }
+}
+
+const ASYMMETRIC_ALGORITHMS: Record<string, { hash: string; dsaEncoding?: 'ieee-p1363' }> = {
+  RS256: { hash: 'sha256' },
+  ES256: { hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+}
+
+function decodeSegment<T>(segment: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'))
+  } catch {
+    throw new JwtVerificationError('Malformed token')
+  }
+}
+
+export class JwtVerifier {
+  private secret: Buffer | null
+  private keys: Map<string, KeyObject> = new Map()
+
+  constructor() {
+    this.secret = config.supabase.jwtSecret ? Buffer.from(config.supabase.jwtSecret) : null
+
+    if (config.supabase.jwksPath) {
+      this.loadJwks(config.supabase.jwksPath)
+    }
+  }
+
+  verify(token: string): VerifiedToken {
+    const segments = token.split('.')
+    if (segments.length !== 3) {
+      throw new JwtVerificationError('Malformed token')
+    }
+
+    const [encodedHeader, encodedClaims, encodedSignature] = segments
+    const header = decodeSegment<JwtHeader>(encodedHeader)
+    const claims = decodeSegment<JwtClaims>(encodedClaims)
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedClaims}`)
+    const signature = Buffer.from(encodedSignature, 'base64url')
+
+    if (!this.verifySignature(header, signingInput, signature)) {
+      throw new JwtVerificationError('Invalid token signature')
+    }
+
+    return this.validateClaims(claims)
+  }
+
+  private verifySignature(header: JwtHeader, signingInput: Buffer, signature: Buffer): boolean {
+    if (header.alg === 'HS256') {
+      if (!this.secret) {
+        throw new JwtVerificationError('HS256 tokens are not accepted')
+      }
+      const expected = createHmac('sha256', this.secret).update(signingInput).digest()
+      return expected.length === signature.length && timingSafeEqual(expected, signature)
+    }
+
+    const algorithm = header.alg ? ASYMMETRIC_ALGORITHMS[header.alg] : undefined
+    if (!algorithm) {
+      throw new JwtVerificationError(`Unsupported token algorithm: ${String(header.alg)}`)
+    }
+
+    const key = header.kid ? this.keys.get(header.kid) : undefined
+    if (!key) {
+      throw new JwtVerificationError('Unknown token signing key')
+    }
+
+    return verify(algorithm.hash, signingInput, { key, dsaEncoding: algorithm.dsaEncoding }, signature)
+  }
+
+  private validateClaims(claims: JwtClaims): VerifiedToken {
+    const now = Math.floor(Date.now() / 1000)
+    const leeway = config.supabase.jwtClockToleranceSec
+
+    if (typeof claims.sub !== 'string' || claims.sub.length === 0) {
+      throw new JwtVerificationError('Token has no subject')
+    }
+
+    if (typeof claims.exp !== 'number') {
+      throw new JwtVerificationError('Token has no expiry')
+    }
+
+    if (claims.exp + leeway <= now) {
+      throw new JwtVerificationError('Token expired')
+    }
+
+    if (typeof claims.nbf === 'number' && claims.nbf - leeway > now) {
+      throw new JwtVerificationError('Token not yet valid')
+    }
+
+    const { jwtAudience, jwtIssuer } = config.supabase
+
+    if (jwtAudience) {
+      const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+      if (!audiences.includes(jwtAudience)) {
+        throw new JwtVerificationError('Token audience mismatch')
+      }
+    }
+
+    if (jwtIssuer && claims.iss !== jwtIssuer) {
+      throw new JwtVerificationError('Token issuer mismatch')
+    }
+
+    return {
+      userId: claims.sub,
+      expiresAt: new Date(claims.exp * 1000),
+      claims,
+    }
+  }
+
+  private loadJwks(path: string): void {
+    const jwks = JSON.parse(readFileSync(path, 'utf8')) as { keys?: (JsonWebKey & { kid?: string })[] }
+
+    for (const jwk of jwks.keys || []) {
+      if (!jwk.kid) {
+        continue
+      }
+      this.keys.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }))
+    }
+
+    logger.info({ path, keys: this.keys.size }, 'Loaded JWKS for token verification')
+  }
+}
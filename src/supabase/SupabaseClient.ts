@@ -1,7 +1,7 @@
 import { createClient, SupabaseClient as SupabaseClientType } from '@supabase/supabase-js'
 import { config } from '../config'
 import { logger } from '../logger'
-import { UserCredentials } from '../types'
+import { UserCredentials, AuditRecord, RiskLimits } from '../types'
 
 export class SupabaseClient {
   private client: SupabaseClientType
@@ -124,6 +124,98 @@ export class SupabaseClient {
     }
   }
 
+  async getRiskLimits(userId: string): Promise<Partial<RiskLimits> | null> {
+    const { data, error } = await this.client
+      .from('risk_limits')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!data) {
+      return null
+    }
+
+    const limits: Partial<RiskLimits> = {
+      maxOrderVolume: data.max_order_volume ?? undefined,
+      maxOpenPositions: data.max_open_positions ?? undefined,
+      allowedSymbols: data.allowed_symbols ?? undefined,
+      deniedSymbols: data.denied_symbols ?? undefined,
+      maxDailyLoss: data.max_daily_loss ?? undefined,
+      requireStopLoss: data.require_stop_loss ?? undefined,
+    }
+
+    return Object.fromEntries(Object.entries(limits).filter(([, value]) => value !== undefined))
+  }
+
+  async insertAuditRecord(record: AuditRecord): Promise<void> {
+    const { error } = await this.client
+      .from('trading_audit_log')
+      .insert({
+        id: record.id,
+        user_id: record.userId,
+        client_id: record.clientId,
+        account_id: record.accountId,
+        operation: record.operation,
+        request_id: record.requestId,
+        client_msg_id: record.clientMsgId,
+        request: record.request,
+        outcome: record.outcome,
+        order_id: record.orderId,
+        position_id: record.positionId,
+        error_code: record.errorCode,
+        description: record.description,
+        latency_ms: record.latencyMs,
+        requested_at: record.requestedAt,
+        completed_at: record.completedAt,
+      })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  async getAuditRecords(userId: string, limit: number, since?: Date): Promise<AuditRecord[]> {
+    let query = this.client
+      .from('trading_audit_log')
+      .select('*')
+      .eq('user_id', userId)
+      .order('requested_at', { ascending: false })
+      .limit(limit)
+
+    if (since) {
+      query = query.gte('requested_at', since.toISOString())
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    return (data || []).map(row => ({
+      id: row.id,
+      userId: row.user_id,
+      clientId: row.client_id,
+      accountId: row.account_id ?? undefined,
+      operation: row.operation,
+      requestId: row.request_id ?? undefined,
+      clientMsgId: row.client_msg_id ?? undefined,
+      request: row.request,
+      outcome: row.outcome,
+      orderId: row.order_id ?? undefined,
+      positionId: row.position_id ?? undefined,
+      errorCode: row.error_code ?? undefined,
+      description: row.description ?? undefined,
+      latencyMs: row.latency_ms,
+      requestedAt: row.requested_at,
+      completedAt: row.completed_at,
+    }))
+  }
+
   async refreshAccessToken(credentials: UserCredentials): Promise<{ accessToken: string; refreshToken: string; expiresIn: number } | null> {
     try {
       logger.info({ userId: credentials.userId }, 'Refreshing access token')
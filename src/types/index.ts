@@ -26,7 +26,8 @@ export interface Position {
   volume: number
   entryPrice: number
   currentPrice: number
-  profit: number
+  /** Unrealized profit; omitted when cTrader does not report it, as in reconcile responses. */
+  profit?: number
   swap: number
   commission: number
   side: 'buy' | 'sell'
@@ -35,27 +36,277 @@ export interface Position {
   takeProfit?: number
 }
 
-export interface ClientMessage {
-  type: 'subscribe' | 'unsubscribe' | 'order' | 'closePosition' | 'ping' | 'authenticate' | 'connect' | 'disconnect'
-  payload: any
+export interface PendingOrder {
+  orderId: string
+  positionId?: string
+  symbol: string
+  orderType: string
+  status: string
+  side: 'buy' | 'sell'
+  volume: number
+  limitPrice?: number
+  stopPrice?: number
+  stopLoss?: number
+  takeProfit?: number
+  timeInForce?: string
+  expiresAt?: Date
+  createdAt: Date
+  label?: string
+  comment?: string
+  clientOrderId?: string
 }
 
-export interface ServerMessage {
-  type: 'accountUpdate' | 'positionUpdate' | 'error' | 'pong' | 'connected' | 'disconnected' | 'authenticated' | 'executionEvent' | 'spotEvent'
-  payload: any
+export type ClientMessageType = ClientMessage['type']
+
+interface ClientMessageBase<T extends string, P> {
+  type: T
+  payload: P
+  requestId?: string
+}
+
+export interface AuthenticatePayload {
+  userId?: string
+  token: string
+}
+
+export interface ConnectPayload {
+  accountId: string
+}
+
+/** Selects which connected account a request targets; optional while only one is connected. */
+export interface AccountScopedPayload {
+  accountId?: string
+}
+
+export interface SymbolsPayload extends AccountScopedPayload {
+  symbolIds: number[]
+}
+
+export interface OrderPayload extends AccountScopedPayload {
+  symbolId: number
+  orderType: number
+  tradeSide: number
+  volume: number
+  /** Entry price of LIMIT orders. */
+  limitPrice?: number
+  /** Trigger price of STOP and STOP_LIMIT orders. */
+  stopPrice?: number
+  /** Reference price a MARKET_RANGE order's slippage is measured from. */
+  baseSlippagePrice?: number
+  /** Accepted slippage of MARKET_RANGE and STOP_LIMIT orders, in points. */
+  slippageInPoints?: number
+  /** Absolute prices; cTrader rejects them on MARKET and MARKET_RANGE orders. */
+  stopLoss?: number
+  takeProfit?: number
+  /** Distance from the entry price in 1/100000 of a price unit, accepted by every order type. */
+  relativeStopLoss?: number
+  relativeTakeProfit?: number
+  comment?: string
+  clientOrderId?: string
+}
+
+export interface ClosePositionPayload extends AccountScopedPayload {
+  positionId: string
+  volume: number
+}
+
+export interface AmendPositionPayload extends AccountScopedPayload {
+  positionId: string
+  stopLoss?: number
+  takeProfit?: number
+}
+
+export interface CancelOrderPayload extends AccountScopedPayload {
+  orderId: string
+}
+
+export interface AmendOrderPayload extends AccountScopedPayload {
+  orderId: string
+  volume?: number
+  limitPrice?: number
+  stopPrice?: number
+  stopLoss?: number
+  takeProfit?: number
+  relativeStopLoss?: number
+  relativeTakeProfit?: number
+  expirationTimestamp?: number
+}
+
+export interface ResumePayload {
+  resumeToken: string
+}
+
+export type EmptyPayload = Record<string, never>
+
+export type ClientMessage =
+  | ClientMessageBase<'authenticate', AuthenticatePayload>
+  | ClientMessageBase<'connect', ConnectPayload>
+  | ClientMessageBase<'disconnect', AccountScopedPayload>
+  | ClientMessageBase<'subscribe', SymbolsPayload>
+  | ClientMessageBase<'unsubscribe', SymbolsPayload>
+  | ClientMessageBase<'order', OrderPayload>
+  | ClientMessageBase<'closePosition', ClosePositionPayload>
+  | ClientMessageBase<'amendPosition', AmendPositionPayload>
+  | ClientMessageBase<'cancelOrder', CancelOrderPayload>
+  | ClientMessageBase<'amendOrder', AmendOrderPayload>
+  | ClientMessageBase<'resume', ResumePayload>
+  | ClientMessageBase<'getAccount', AccountScopedPayload>
+  | ClientMessageBase<'getPositions', AccountScopedPayload>
+  | ClientMessageBase<'getOrders', AccountScopedPayload>
+  | ClientMessageBase<'ping', EmptyPayload>
+
+export type ErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_MESSAGE_TYPE'
+  | 'VALIDATION_FAILED'
+  | 'NOT_AUTHENTICATED'
+  | 'ALREADY_AUTHENTICATED'
+  | 'INVALID_TOKEN'
+  | 'TOKEN_EXPIRED'
+  | 'AUTHENTICATION_FAILED'
+  | 'TOO_MANY_CONNECTIONS'
+  | 'INVALID_RESUME_TOKEN'
+  | 'NO_CREDENTIALS'
+  | 'NOT_CONNECTED'
+  | 'TOO_MANY_ACCOUNTS'
+  | 'UPSTREAM_CONNECT_FAILED'
+  | 'UPSTREAM_ERROR'
+  | 'ORDER_ERROR'
+  | 'REQUEST_FAILED'
+  | 'SERVER_SHUTTING_DOWN'
+
+export interface ErrorPayload {
+  code: ErrorCode
+  message: string
+  field?: string
+}
+
+/** Decoded cTrader Open API payload, forwarded as produced by protobufjs toJSON(). */
+export type ProtoPayload = Record<string, any>
+
+export type ServerMessageType = ServerMessage['type']
+
+interface ServerMessageBase<T extends string, P> {
+  type: T
+  payload: P
   timestamp: number
+  requestId?: string
+  accountId?: string
+}
+
+export type ServerMessage =
+  | ServerMessageBase<'connected', { clientId: string }>
+  | ServerMessageBase<'authenticated', {
+      userId: string
+      expiresAt: number
+      resumeToken: string
+      resumeGracePeriodMs: number
+    }>
+  | ServerMessageBase<'resumed', {
+      clientId: string
+      userId: string
+      accounts: { accountId: string; symbolIds: number[] }[]
+      resumeToken: string
+      replayed: number
+    }>
+  | ServerMessageBase<'accountUpdate', CTraderAccount>
+  | ServerMessageBase<'positionUpdate', Position[]>
+  | ServerMessageBase<'orderUpdate', PendingOrder[]>
+  | ServerMessageBase<'executionEvent', ProtoPayload>
+  | ServerMessageBase<'spotEvent', ProtoPayload>
+  | ServerMessageBase<'rawEvent', { type: string; payload: ProtoPayload }>
+  | ServerMessageBase<'subscribed', SymbolsPayload>
+  | ServerMessageBase<'unsubscribed', SymbolsPayload>
+  | ServerMessageBase<'orderResult', OrderResult>
+  | ServerMessageBase<'riskRejected', { message: string; violations: RiskViolation[] }>
+  | ServerMessageBase<'rateLimited', { messageType: string; scope: 'connection' | 'user'; retryAfterMs: number }>
+  | ServerMessageBase<'disconnected', { code?: number; reason: string; accountId?: string }>
+  | ServerMessageBase<'serverShutdown', { reason: string; reconnectAfterMs: number; drainTimeoutMs: number }>
+  | ServerMessageBase<'connectionQuality', ConnectionQuality>
+  | ServerMessageBase<'pong', EmptyPayload>
+  | ServerMessageBase<'error', ErrorPayload>
+
+export interface OrderResult {
+  status: 'accepted' | 'filled' | 'amended' | 'cancelled' | 'rejected'
+  orderId?: string
+  positionId?: string
+  errorCode?: string
+  description?: string
+  event?: ProtoPayload
+  duplicate?: boolean
+}
+
+/** Pre-trade limits for one user. Zero disables a numeric limit; an empty allow-list allows every symbol. */
+export interface RiskLimits {
+  maxOrderVolume: number
+  maxOpenPositions: number
+  allowedSymbols: number[]
+  deniedSymbols: number[]
+  maxDailyLoss: number
+  requireStopLoss: boolean
+}
+
+export type RiskRule =
+  | 'maxOrderVolume'
+  | 'maxOpenPositions'
+  | 'symbolNotAllowed'
+  | 'symbolDenied'
+  | 'maxDailyLoss'
+  | 'stopLossRequired'
+  | 'limitsUnavailable'
+
+export interface RiskViolation {
+  rule: RiskRule
+  message: string
+  limit?: number
+  actual?: number
+}
+
+/**
+ * One trading request of an authenticated user. Requests turned away before reaching cTrader are recorded as
+ * rejected without a clientMsgId, and without an accountId when none could be resolved.
+ */
+export interface AuditRecord {
+  id: string
+  userId: string
+  clientId: string
+  accountId?: string
+  operation: string
+  requestId?: string
+  clientMsgId?: string
+  request: Record<string, unknown>
+  outcome: OrderResult['status'] | 'failed'
+  orderId?: string
+  positionId?: string
+  errorCode?: string
+  description?: string
+  latencyMs: number
+  requestedAt: string
+  completedAt: string
 }
 
-export interface RateLimitEntry {
-  count: number
-  resetAt: number
+export interface ConnectionQuality {
+  rttMs?: number
+  queueDepth: number
+  droppedMessages: number
+  conflatedMessages: number
+  reconnects: number
 }
 
 export interface ConnectionState {
   userId: string
   isAuthenticated: boolean
   isConnectedToCTrader: boolean
-  accountId?: string
+  accountIds: string[]
   lastActivity: Date
   reconnectAttempts: number
 }
+
+export interface RecordedFrame {
+  direction: 'in' | 'out'
+  timestamp: number
+  payloadType: number
+  type: string | null
+  clientMsgId?: string
+  data?: string
+}
@@ -0,0 +1,49 @@
+interface CacheEntry<T> {
+  result: Promise<T>
+  expiresAt: number
+}
+
+/**
+ * Shares the outcome of the first call for a key with repeats inside the window. A failure is only forgotten,
+ * letting the key be retried, when isSafeToRetry says nothing was sent; a timeout or dropped connection may
+ * still have placed the order, so repeats get that failure back instead.
+ *
+ * Entries live in this process only: a repeat that lands on another bridge instance is not recognised.
+ */
+export class IdempotencyCache<T> {
+  private windowMs: number
+  private isSafeToRetry: (error: unknown) => boolean
+  private entries: Map<string, CacheEntry<T>> = new Map()
+
+  constructor(windowMs: number, isSafeToRetry: (error: unknown) => boolean = () => false) {
+    this.windowMs = windowMs
+    this.isSafeToRetry = isSafeToRetry
+  }
+
+  run(key: string, execute: () => Promise<T>): { result: Promise<T>; duplicate: boolean } {
+    const existing = this.entries.get(key)
+    if (existing && existing.expiresAt > Date.now()) {
+      return { result: existing.result, duplicate: true }
+    }
+
+    const entry: CacheEntry<T> = { result: execute(), expiresAt: Date.now() + this.windowMs }
+    this.entries.set(key, entry)
+
+    entry.result.catch((error) => {
+      if (this.isSafeToRetry(error) && this.entries.get(key) === entry) {
+        this.entries.delete(key)
+      }
+    })
+
+    return { result: entry.result, duplicate: false }
+  }
+
+  prune(): void {
+    const now = Date.now()
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key)
+      }
+    }
+  }
+}
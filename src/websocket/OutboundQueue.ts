@@ -0,0 +1,148 @@
+import { config } from '../config'
+import { metrics } from '../metrics'
+import { ServerMessage } from '../types'
+
+const BACKPRESSURE_RETRY_MS = 50
+
+export interface OutboundQueueOptions {
+  write: (message: ServerMessage) => void
+  bufferedAmount: () => number
+  onOverflow: (reason: string) => void
+}
+
+export class OutboundQueue {
+  private options: OutboundQueueOptions
+  private pending: ServerMessage[] = []
+  private spots: Map<string, ServerMessage> = new Map()
+  private lastSpotFlushAt = 0
+  private overLimitSince: number | null = null
+  private flushTimer: NodeJS.Timeout | null = null
+  private closed = false
+  conflatedCount = 0
+  droppedCount = 0
+
+  constructor(options: OutboundQueueOptions) {
+    this.options = options
+  }
+
+  enqueue(message: ServerMessage): void {
+    if (this.closed) return
+
+    if (message.type === 'spotEvent') {
+      const key = `${message.accountId}:${message.payload.symbolId}`
+      if (this.spots.has(key)) {
+        this.conflatedCount++
+        metrics.conflatedSpots.inc()
+        this.spots.delete(key)
+      }
+      this.spots.set(key, message)
+    } else {
+      this.pending.push(message)
+    }
+
+    if (this.pending.length > config.outbound.maxQueuedMessages) {
+      this.options.onOverflow('Outbound queue limit exceeded')
+      return
+    }
+
+    this.scheduleFlush(0)
+  }
+
+  depth(): number {
+    return this.pending.length + this.spots.size
+  }
+
+  /** Stops the queue and hands back undelivered messages, quotes last. */
+  drain(): ServerMessage[] {
+    const pending = [...this.pending, ...this.spots.values()]
+    this.pending = []
+    this.spots.clear()
+    this.close()
+    return pending
+  }
+
+  /** Writes queued non-quote messages immediately, ignoring backpressure, then closes. */
+  end(): void {
+    const pending = this.pending
+    this.pending = []
+    this.spots.clear()
+    this.close()
+    pending.forEach(message => this.options.write(message))
+  }
+
+  close(): void {
+    this.closed = true
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+  }
+
+  private scheduleFlush(delayMs: number): void {
+    if (this.flushTimer || this.closed) return
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null
+      this.flush()
+    }, delayMs)
+  }
+
+  private flush(): void {
+    if (this.closed) return
+
+    if (!this.checkBufferLimit()) return
+
+    while (this.pending.length > 0 && this.hasCapacity()) {
+      this.options.write(this.pending.shift()!)
+    }
+
+    if (this.pending.length > 0) {
+      this.scheduleFlush(BACKPRESSURE_RETRY_MS)
+      return
+    }
+
+    if (this.spots.size === 0) return
+
+    const spotIntervalMs = 1000 / config.outbound.maxSpotUpdatesPerSecond
+    const waitMs = this.lastSpotFlushAt + spotIntervalMs - Date.now()
+
+    if (waitMs > 0) {
+      this.scheduleFlush(waitMs)
+      return
+    }
+
+    if (!this.hasCapacity()) {
+      this.scheduleFlush(BACKPRESSURE_RETRY_MS)
+      return
+    }
+
+    const spots = Array.from(this.spots.values())
+    this.spots.clear()
+    this.lastSpotFlushAt = Date.now()
+    spots.forEach(message => this.options.write(message))
+  }
+
+  private hasCapacity(): boolean {
+    return this.options.bufferedAmount() < config.outbound.highWaterMarkBytes
+  }
+
+  private checkBufferLimit(): boolean {
+    if (this.options.bufferedAmount() <= config.outbound.maxBufferedBytes) {
+      this.overLimitSince = null
+      return true
+    }
+
+    const now = Date.now()
+    this.overLimitSince = this.overLimitSince ?? now
+
+    if (now - this.overLimitSince >= config.outbound.slowConsumerTimeoutMs) {
+      this.droppedCount += this.depth()
+      metrics.clientDroppedMessages.inc({}, this.depth())
+      this.options.onOverflow('Client exceeded outbound buffer limit')
+      return false
+    }
+
+    this.scheduleFlush(BACKPRESSURE_RETRY_MS)
+    return false
+  }
+}
@@ -0,0 +1,61 @@
+interface TokenBucket {
+  tokens: number
+  updatedAt: number
+}
+
+export class RateLimiter {
+  private capacity: number
+  private refillPerMs: number
+  private buckets: Map<string, TokenBucket> = new Map()
+
+  constructor(capacity: number, refillWindowMs: number) {
+    this.capacity = capacity
+    this.refillPerMs = capacity / refillWindowMs
+  }
+
+  retryAfter(key: string, cost: number): number {
+    const bucket = this.refill(key)
+    if (bucket.tokens >= cost) {
+      return 0
+    }
+
+    if (cost > this.capacity) {
+      return Infinity
+    }
+
+    return Math.ceil((cost - bucket.tokens) / this.refillPerMs)
+  }
+
+  consume(key: string, cost: number): void {
+    const bucket = this.refill(key)
+    bucket.tokens = Math.max(0, bucket.tokens - cost)
+  }
+
+  delete(key: string): void {
+    this.buckets.delete(key)
+  }
+
+  prune(): void {
+    for (const key of this.buckets.keys()) {
+      if (this.refill(key).tokens >= this.capacity) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+
+  private refill(key: string): TokenBucket {
+    const now = Date.now()
+    let bucket = this.buckets.get(key)
+
+    if (!bucket) {
+      bucket = { tokens: this.capacity, updatedAt: now }
+      this.buckets.set(key, bucket)
+      return bucket
+    }
+
+    const elapsed = now - bucket.updatedAt
+    bucket.tokens = Math.min(this.capacity, bucket.tokens + elapsed * this.refillPerMs)
+    bucket.updatedAt = now
+    return bucket
+  }
+}
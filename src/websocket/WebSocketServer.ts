@@ -1,48 +1,206 @@
 import WebSocket from 'ws'
-import { createServer, Server as HttpServer } from 'http'
+import { randomBytes, randomUUID } from 'crypto'
+import { createServer, IncomingMessage, ServerResponse, Server as HttpServer } from 'http'
 import { EventEmitter } from 'events'
 import { config } from '../config'
 import { logger } from '../logger'
+import { metrics, registry } from '../metrics'
 import { SupabaseClient } from '../supabase/SupabaseClient'
+import { JwtVerifier, JwtVerificationError } from '../supabase/JwtVerifier'
+import { AuditLog } from '../audit/AuditLog'
+import { RiskEngine, RiskRejectedError } from '../risk/RiskEngine'
 import { AuthManager } from '../ctrader/AuthManager'
-import { ProtoOAClient } from '../ctrader/ProtoOAClient'
 import { MessageHandler } from '../ctrader/MessageHandler'
-import { ClientMessage, ServerMessage, RateLimitEntry, ConnectionState } from '../types'
+import { SessionClient } from '../ctrader/RemoteSessionClient'
+import { UpstreamSession, UpstreamSessionRegistry } from '../ctrader/UpstreamSessionRegistry'
+import { Backplane } from '../backplane/Backplane'
+import { createBackplane } from '../backplane/createBackplane'
+import {
+  ClientMessage,
+  ServerMessage,
+  ConnectionQuality,
+  ConnectionState,
+  OrderResult,
+  AuditRecord,
+  ErrorCode,
+  AuthenticatePayload,
+  ConnectPayload,
+  SymbolsPayload,
+  OrderPayload,
+  ClosePositionPayload,
+  AccountScopedPayload,
+  AmendPositionPayload,
+  CancelOrderPayload,
+  AmendOrderPayload,
+  ResumePayload,
+} from '../types'
+import { RateLimiter } from './RateLimiter'
+import { IdempotencyCache } from './IdempotencyCache'
+import { OutboundQueue } from './OutboundQueue'
+import { isPlainObject, parseClientMessage, ValidationError } from './validation'
+import {
+  MessageEncoding,
+  selectSubprotocol,
+  encodingForSubprotocol,
+  encodeServerMessage,
+  decodeClientMessage,
+} from './codec'
+import { verifyHandshake, hasValidAdminKey, remoteAddress } from './handshake'
+
+interface SocketBinding {
+  clientId: string
+}
+
+interface AccountBinding {
+  accountId: string
+  session: UpstreamSession | null
+  subscriptions: Set<number>
+  connectRequestId?: string
+}
 
 interface ClientConnection {
   ws: WebSocket
+  binding: SocketBinding
+  encoding: MessageEncoding
+  outbound: OutboundQueue
   userId: string
-  ctraderClient: ProtoOAClient | null
+  accounts: Map<string, AccountBinding>
   state: ConnectionState
-  rateLimits: Map<string, RateLimitEntry>
   lastPing: Date
+  pingSentAt?: number
+  rttMs?: number
+  droppedMessages: number
+  conflatedMessages: number
+  pendingRequests: Map<string, string>
+  inFlightRequests: Set<string>
+  tokenExpiresAt?: Date
+  tokenExpiryTimer?: NodeJS.Timeout
+  resumeToken?: string
+  suspendedAt?: Date
+  resumeTimer?: NodeJS.Timeout
+  replayBuffer: ServerMessage[]
+}
+
+const REPLAYABLE_MESSAGE_TYPES: ServerMessage['type'][] = [
+  'accountUpdate',
+  'positionUpdate',
+  'executionEvent',
+  'orderResult',
+]
+
+const TRADING_MESSAGE_TYPES: ClientMessage['type'][] = [
+  'order',
+  'closePosition',
+  'amendPosition',
+  'cancelOrder',
+  'amendOrder',
+]
+
+const DRAIN_REJECTED_MESSAGE_TYPES: ClientMessage['type'][] = [
+  'authenticate',
+  'connect',
+  'resume',
+  ...TRADING_MESSAGE_TYPES,
+]
+
+const DRAIN_POLL_INTERVAL_MS = 100
+const ADMIN_DISCONNECT_CLOSE_CODE = 4003
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
+const DEFAULT_AUDIT_QUERY_LIMIT = 100
+const MAX_AUDIT_QUERY_LIMIT = 1000
+
+export interface WebSocketServerOptions {
+  supabaseClient?: SupabaseClient
+  backplane?: Backplane
 }
 
 export class WebSocketServer extends EventEmitter {
   private httpServer: HttpServer
   private wss: WebSocket.Server
   private supabaseClient: SupabaseClient
+  private auditLog: AuditLog
+  private riskEngine: RiskEngine
   private authManager: AuthManager
+  private jwtVerifier: JwtVerifier
   private messageHandler: MessageHandler
+  private sessionRegistry: UpstreamSessionRegistry
   private clients: Map<string, ClientConnection> = new Map()
+  private resumeTokens: Map<string, string> = new Map()
+  private connectionRateLimiter = new RateLimiter(
+    config.rateLimit.messageRateLimit,
+    config.rateLimit.rateLimitWindowMs
+  )
+  private userRateLimiter = new RateLimiter(
+    config.rateLimit.userMessageRateLimit,
+    config.rateLimit.rateLimitWindowMs
+  )
+  private submittedOrders = new IdempotencyCache<OrderResult>(
+    config.orders.idempotencyWindowMs,
+    error => error instanceof RiskRejectedError
+  )
   private healthCheckInterval: NodeJS.Timeout | null = null
+  private qualityReportInterval: NodeJS.Timeout | null = null
+  private draining = false
+  private stopPromise: Promise<void> | null = null
 
-  constructor() {
+  constructor(options: WebSocketServerOptions = {}) {
     super()
     
-    this.httpServer = createServer((req, res) => {
-      if (req.url === '/health') {
-        res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify({
-          status: 'ok',
-          clients: this.clients.size,
-          timestamp: Date.now(),
-        }))
-        return
-      }
+    this.httpServer = createServer((req, res) => this.handleHttpRequest(req, res))
+
+    this.wss = new WebSocket.Server({ 
+      server: this.httpServer,
+      maxPayload: 1024 * 1024,
+      clientTracking: true,
+      verifyClient: (info, callback) => {
+        const rejection = verifyHandshake(info.req)
+        if (!rejection) {
+          callback(true)
+          return
+        }
+
+        metrics.handshakeRejections.inc({ reason: rejection.reason })
+        logger.warn(
+          { ip: remoteAddress(info.req), origin: info.origin || undefined, reason: rejection.reason },
+          'WebSocket handshake rejected'
+        )
+        callback(false, rejection.status, rejection.message)
+      },
+      handleProtocols: (protocols) => selectSubprotocol(protocols),
+      perMessageDeflate: config.server.perMessageDeflate
+        ? { threshold: config.server.deflateThresholdBytes }
+        : false,
+    })
+
+    this.supabaseClient = options.supabaseClient || new SupabaseClient()
+    this.auditLog = new AuditLog(this.supabaseClient)
+    this.riskEngine = new RiskEngine(this.supabaseClient)
+    this.authManager = new AuthManager(this.supabaseClient)
+    this.jwtVerifier = new JwtVerifier()
+    this.messageHandler = new MessageHandler()
+    this.sessionRegistry = new UpstreamSessionRegistry(this.messageHandler, options.backplane || createBackplane())
+
+    this.setupSessionRegistry()
+    this.setupWebSocketServer()
+    this.setupMetrics()
+  }
+
+  private handleHttpRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (req.url === '/health') {
+      res.writeHead(this.draining ? 503 : 200, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({
+        status: this.draining ? 'draining' : 'ok',
+        clients: this.clients.size,
+        timestamp: Date.now(),
+      }))
+      return
+    }
+
+    if (req.url === '/metrics') {
+      const accept = req.headers.accept || ''
 
-      if (req.url === '/metrics') {
-        const metrics = {
+      if (accept.includes('application/json')) {
+        const metricsSnapshot = {
           totalConnections: this.clients.size,
           authenticatedConnections: Array.from(this.clients.values()).filter(
             c => c.state.isAuthenticated
@@ -54,70 +212,243 @@ export class WebSocketServer extends EventEmitter {
           memory: process.memoryUsage(),
         }
         res.writeHead(200, { 'Content-Type': 'application/json' })
-        res.end(JSON.stringify(metrics))
+        res.end(JSON.stringify(metricsSnapshot))
+        return
+      }
+
+      res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' })
+      res.end(registry.render())
+      return
+    }
+
+    if (req.url?.startsWith('/admin/')) {
+      this.handleAdminRequest(req, res)
+      return
+    }
+
+    res.writeHead(404)
+    res.end('Not Found')
+  }
+
+  private handleAdminRequest(req: IncomingMessage, res: ServerResponse): void {
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(body))
+    }
+
+    if (!hasValidAdminKey(req)) {
+      logger.warn({ ip: remoteAddress(req), url: req.url }, 'Rejected admin request')
+      sendJson(401, { error: 'Unauthorized' })
+      return
+    }
+
+    const { pathname, searchParams } = new URL(req.url!, 'http://localhost')
+    const [, resource, id, action, ...rest] = pathname.split('/').filter(Boolean)
+    const route = rest.length > 0 ? '' : [req.method, resource, id && ':id', action].filter(Boolean).join(' ')
+    let target = ''
+
+    try {
+      target = id ? decodeURIComponent(id) : ''
+    } catch {
+      sendJson(400, { error: 'Malformed path' })
+      return
+    }
+
+    switch (route) {
+      case 'GET clients':
+        sendJson(200, { clients: Array.from(this.clients.keys()).map(clientId => this.describeClient(clientId)) })
+        return
+
+      case 'GET clients :id':
+        if (!this.clients.has(target)) {
+          sendJson(404, { error: 'Client not found' })
+          return
+        }
+        sendJson(200, this.describeClient(target))
+        return
+
+      case 'POST clients :id disconnect':
+        if (!this.clients.has(target)) {
+          sendJson(404, { error: 'Client not found' })
+          return
+        }
+        this.forceDisconnect(target)
+        sendJson(200, { disconnected: [target] })
+        return
+
+      case 'POST users :id disconnect': {
+        const clientIds = Array.from(this.clients.entries())
+          .filter(([, connection]) => connection.userId === target)
+          .map(([clientId]) => clientId)
+        clientIds.forEach(clientId => this.forceDisconnect(clientId))
+        sendJson(200, { disconnected: clientIds })
+        return
+      }
+
+      case 'GET users :id audit': {
+        const limit = Math.min(Number(searchParams.get('limit')) || DEFAULT_AUDIT_QUERY_LIMIT, MAX_AUDIT_QUERY_LIMIT)
+        const since = searchParams.has('since') ? new Date(searchParams.get('since')!) : undefined
+
+        if (since && isNaN(since.getTime())) {
+          sendJson(400, { error: 'since must be a valid date' })
+          return
+        }
+
+        this.auditLog.query(target, limit, since)
+          .then(records => sendJson(200, { userId: target, records }))
+          .catch((error) => {
+            logger.error({ error, userId: target }, 'Failed to query audit records')
+            sendJson(500, { error: 'Failed to query audit records' })
+          })
         return
       }
 
-      res.writeHead(404)
-      res.end('Not Found')
+      case 'POST users :id clear-credentials':
+        this.authManager.clearCache(target)
+        logger.info({ userId: target }, 'Credentials cache cleared by administrator')
+        sendJson(200, { cleared: target })
+        return
+
+      case 'POST users :id reload-risk-limits':
+        this.riskEngine.clearCache(target)
+        logger.info({ userId: target }, 'Risk limits cache cleared by administrator')
+        sendJson(200, { cleared: target })
+        return
+
+      default:
+        sendJson(404, { error: 'Not Found' })
+    }
+  }
+
+  private describeClient(clientId: string) {
+    const connection = this.clients.get(clientId)!
+
+    return {
+      clientId,
+      userId: connection.userId || undefined,
+      state: connection.state,
+      encoding: connection.encoding,
+      accounts: Array.from(connection.accounts.values()).map(account => ({
+        accountId: account.accountId,
+        connected: account.session !== null,
+        remote: account.session?.remote,
+        upstreamClients: account.session?.clientIds.size,
+        subscriptions: Array.from(account.subscriptions),
+      })),
+      pendingRequests: connection.inFlightRequests.size,
+      quality: this.connectionQuality(connection),
+      lastPing: connection.lastPing,
+      tokenExpiresAt: connection.tokenExpiresAt,
+      suspendedAt: connection.suspendedAt,
+    }
+  }
+
+  private forceDisconnect(clientId: string): void {
+    const connection = this.clients.get(clientId)
+    if (!connection) return
+
+    logger.warn({ clientId, userId: connection.userId }, 'Client disconnected by administrator')
+
+    this.sendToClient(clientId, {
+      type: 'disconnected',
+      payload: { reason: 'Disconnected by administrator' },
+      timestamp: Date.now(),
     })
+    connection.outbound.end()
+    this.removeClient(clientId)
+    connection.ws.close(ADMIN_DISCONNECT_CLOSE_CODE, 'Disconnected by administrator')
+  }
 
-    this.wss = new WebSocket.Server({ 
-      server: this.httpServer,
-      maxPayload: 1024 * 1024,
-      clientTracking: true,
+  private setupMetrics(): void {
+    metrics.connections.collect(gauge => {
+      const connections = Array.from(this.clients.values())
+      gauge.set({ state: 'open' }, connections.filter(c => !c.suspendedAt).length)
+      gauge.set({ state: 'suspended' }, connections.filter(c => c.suspendedAt).length)
+      gauge.set({ state: 'authenticated' }, connections.filter(c => c.state.isAuthenticated).length)
+      gauge.set({ state: 'ctrader' }, connections.filter(c => c.state.isConnectedToCTrader).length)
     })
 
-    this.supabaseClient = new SupabaseClient()
-    this.authManager = new AuthManager(this.supabaseClient)
-    this.messageHandler = new MessageHandler()
+    const queueDepths = () => Array.from(this.clients.values()).map(connection => connection.outbound.depth())
+    metrics.clientQueueDepth.collect(gauge => gauge.set({}, queueDepths().reduce((total, depth) => total + depth, 0)))
+    metrics.clientQueueDepthMax.collect(gauge => gauge.set({}, Math.max(0, ...queueDepths())))
 
-    this.setupWebSocketServer()
+    metrics.accountSubscriptions.collect(gauge => {
+      for (const session of this.sessionRegistry.getSessions()) {
+        gauge.set({ account: session.accountId }, session.client.getSubscribedSymbols().length)
+      }
+    })
   }
 
   async initialize(): Promise<void> {
     await this.messageHandler.initialize()
+    await this.sessionRegistry.start()
     logger.info('WebSocket server initialized')
   }
 
   private setupWebSocketServer(): void {
     this.wss.on('connection', (ws: WebSocket, req) => {
+      if (this.draining) {
+        ws.close(1012, 'Server shutting down')
+        return
+      }
+
       const clientId = this.generateClientId()
-      logger.info({ clientId, ip: req.socket.remoteAddress }, 'New WebSocket connection')
+      const encoding = encodingForSubprotocol(ws.protocol)
+      logger.info(
+        { clientId, ip: remoteAddress(req), encoding, extensions: ws.extensions || undefined },
+        'New WebSocket connection'
+      )
 
+      const binding: SocketBinding = { clientId }
       const connection: ClientConnection = {
         ws,
+        binding,
+        encoding,
+        outbound: this.createOutboundQueue(ws, binding, encoding),
         userId: '',
-        ctraderClient: null,
+        accounts: new Map(),
         state: {
           userId: '',
           isAuthenticated: false,
           isConnectedToCTrader: false,
+          accountIds: [],
           lastActivity: new Date(),
           reconnectAttempts: 0,
         },
-        rateLimits: new Map(),
         lastPing: new Date(),
+        droppedMessages: 0,
+        conflatedMessages: 0,
+        pendingRequests: new Map(),
+        inFlightRequests: new Set(),
+        replayBuffer: [],
       }
 
       this.clients.set(clientId, connection)
 
-      ws.on('message', (data: Buffer) => {
-        this.handleClientMessage(clientId, data)
+      ws.on('message', (data: Buffer, isBinary: boolean) => {
+        this.handleClientMessage(binding.clientId, data, isBinary)
       })
 
       ws.on('pong', () => {
-        connection.lastPing = new Date()
+        const current = this.clients.get(binding.clientId)
+        if (current) {
+          current.lastPing = new Date()
+          if (current.pingSentAt !== undefined) {
+            current.rttMs = current.lastPing.getTime() - current.pingSentAt
+            current.pingSentAt = undefined
+            metrics.clientRtt.observe({}, current.rttMs / 1000)
+          }
+        }
       })
 
       ws.on('close', (code: number, reason: Buffer) => {
-        logger.info({ clientId, code, reason: reason.toString() }, 'Client disconnected')
-        this.handleClientDisconnect(clientId)
+        logger.info({ clientId: binding.clientId, code, reason: reason.toString() }, 'Client disconnected')
+        this.handleClientDisconnect(binding.clientId)
       })
 
       ws.on('error', (error: Error) => {
-        logger.error({ error, clientId }, 'WebSocket error')
-        this.handleClientDisconnect(clientId)
+        logger.error({ error, clientId: binding.clientId }, 'WebSocket error')
+        this.handleClientDisconnect(binding.clientId)
       })
 
       this.sendToClient(clientId, {
@@ -134,76 +465,284 @@ export class WebSocketServer extends EventEmitter {
     this.healthCheckInterval = setInterval(() => {
       this.performHealthCheck()
     }, 30000)
+
+    if (config.connection.qualityReportIntervalMs > 0) {
+      this.qualityReportInterval = setInterval(() => {
+        this.reportConnectionQuality()
+      }, config.connection.qualityReportIntervalMs)
+    }
   }
 
-  private async handleClientMessage(clientId: string, data: Buffer): Promise<void> {
+  private setupSessionRegistry(): void {
+    this.sessionRegistry.on('accountAuthorized', (session, account) => {
+      logger.info({ key: session.key, accountId: account.accountId, remote: session.remote }, 'Account authorized')
+
+      if (!session.remote) {
+        this.supabaseClient.setConnectionStatus(session.userId, true)
+        this.supabaseClient.updateAccountInfo(session.userId, account)
+      }
+
+      for (const clientId of session.clientIds) {
+        this.sendAccountSnapshot(clientId, session)
+      }
+    })
+
+    this.sessionRegistry.on('positionUpdate', (session, positions) => {
+      this.broadcastToSession(session, {
+        type: 'positionUpdate',
+        payload: positions,
+        timestamp: Date.now(),
+        accountId: session.accountId,
+      })
+    })
+
+    this.sessionRegistry.on('executionEvent', (session, event, clientMsgId) => {
+      for (const clientId of session.clientIds) {
+        const connection = this.clients.get(clientId)
+        this.sendToClient(clientId, {
+          type: 'executionEvent',
+          payload: event,
+          timestamp: Date.now(),
+          requestId: clientMsgId ? connection?.pendingRequests.get(clientMsgId) : undefined,
+          accountId: session.accountId,
+        })
+      }
+    })
+
+    this.sessionRegistry.on('orderError', (session, event, clientMsgId) => {
+      const isCorrelated = clientMsgId && Array.from(session.clientIds).some(
+        clientId => this.clients.get(clientId)?.pendingRequests.has(clientMsgId)
+      )
+
+      if (isCorrelated) {
+        return
+      }
+
+      for (const clientId of session.clientIds) {
+        this.sendError(clientId, 'ORDER_ERROR', event.description || event.errorCode, undefined, undefined, session.accountId)
+      }
+    })
+
+    this.sessionRegistry.on('spotEvent', (session, event) => {
+      const symbolId = Number(event.symbolId)
+
+      for (const clientId of session.clientIds) {
+        if (!this.clients.get(clientId)?.accounts.get(session.accountId)?.subscriptions.has(symbolId)) {
+          continue
+        }
+
+        this.sendToClient(clientId, {
+          type: 'spotEvent',
+          payload: event,
+          timestamp: Date.now(),
+          accountId: session.accountId,
+        })
+      }
+    })
+
+    this.sessionRegistry.on('rawEvent', (session, type, payload) => {
+      this.broadcastToSession(session, {
+        type: 'rawEvent',
+        payload: { type, payload },
+        timestamp: Date.now(),
+        accountId: session.accountId,
+      })
+    })
+
+    this.sessionRegistry.on('error', (session, error) => {
+      logger.error({ error, key: session.key }, 'cTrader client error')
+
+      for (const clientId of session.clientIds) {
+        const account = this.clients.get(clientId)?.accounts.get(session.accountId)
+        this.sendError(clientId, 'UPSTREAM_ERROR', error.message, account?.connectRequestId, undefined, session.accountId)
+      }
+    })
+
+    this.sessionRegistry.on('disconnected', (session, code, reason) => {
+      logger.warn({ key: session.key, code, reason }, 'cTrader client disconnected')
+
+      for (const clientId of session.clientIds) {
+        const connection = this.clients.get(clientId)
+        if (connection) {
+          this.updateConnectionState(connection)
+        }
+      }
+
+      this.broadcastToSession(session, {
+        type: 'disconnected',
+        payload: { code, reason, accountId: session.accountId },
+        timestamp: Date.now(),
+        accountId: session.accountId,
+      })
+    })
+
+    this.sessionRegistry.on('sessionClosed', (session, reason) => {
+      for (const clientId of session.clientIds) {
+        const connection = this.clients.get(clientId)
+        if (connection?.accounts.get(session.accountId)?.session !== session) {
+          continue
+        }
+
+        connection.accounts.delete(session.accountId)
+        this.updateConnectionState(connection)
+        this.sendToClient(clientId, {
+          type: 'disconnected',
+          payload: { accountId: session.accountId, reason },
+          timestamp: Date.now(),
+          accountId: session.accountId,
+        })
+      }
+
+      if (session.remote) return
+      this.supabaseClient.setConnectionStatus(session.userId, false)
+    })
+  }
+
+  private async handleClientMessage(clientId: string, data: Buffer, isBinary: boolean): Promise<void> {
     const connection = this.clients.get(clientId)
     if (!connection) return
 
     connection.state.lastActivity = new Date()
 
-    try {
-      const message: ClientMessage = JSON.parse(data.toString())
+    let decoded: unknown
+    let message: ClientMessage
 
-      if (!this.checkRateLimit(clientId, message.type)) {
-        this.sendError(clientId, 'Rate limit exceeded')
+    try {
+      decoded = decodeClientMessage(data, isBinary, connection.encoding)
+      message = parseClientMessage(decoded)
+    } catch (error) {
+      metrics.inboundMessages.inc({ type: 'invalid' })
+      if (this.checkRateLimit(clientId, 'invalid')) {
         return
       }
 
+      if (error instanceof ValidationError) {
+        this.sendError(clientId, error.code, error.message, error.requestId, error.field)
+        if (isPlainObject(decoded)) {
+          this.auditRejection(clientId, String(decoded.type), decoded.payload, error.requestId, error.code, error.message)
+        }
+      } else {
+        logger.error({ error, clientId }, 'Error parsing client message')
+        this.sendError(clientId, 'INVALID_MESSAGE', 'Invalid message format')
+      }
+      return
+    }
+
+    const { requestId } = message
+    metrics.inboundMessages.inc({ type: message.type })
+
+    const rateLimit = this.checkRateLimit(clientId, message.type)
+    if (rateLimit) {
+      this.sendToClient(clientId, {
+        type: 'rateLimited',
+        payload: { messageType: message.type, ...rateLimit },
+        timestamp: Date.now(),
+        requestId,
+      })
+      const description = `Rate limit exceeded for ${rateLimit.scope}`
+      this.auditRejection(clientId, message.type, message.payload, requestId, 'RATE_LIMITED', description)
+      return
+    }
+
+    if (this.draining && DRAIN_REJECTED_MESSAGE_TYPES.includes(message.type)) {
+      this.sendError(clientId, 'SERVER_SHUTTING_DOWN', 'Server is shutting down', requestId)
+      this.auditRejection(clientId, message.type, message.payload, requestId, 'SERVER_SHUTTING_DOWN', 'Server is shutting down')
+      return
+    }
+
+    try {
       switch (message.type) {
         case 'authenticate':
-          await this.handleAuthenticate(clientId, message.payload)
+          await this.handleAuthenticate(clientId, message.payload, requestId)
           break
         case 'connect':
-          await this.handleConnect(clientId, message.payload)
+          await this.handleConnect(clientId, message.payload, requestId)
           break
         case 'disconnect':
-          this.handleDisconnect(clientId)
+          this.handleDisconnect(clientId, message.payload, requestId)
           break
         case 'subscribe':
-          await this.handleSubscribe(clientId, message.payload)
+          await this.handleSubscribe(clientId, message.payload, requestId)
           break
         case 'unsubscribe':
-          await this.handleUnsubscribe(clientId, message.payload)
+          await this.handleUnsubscribe(clientId, message.payload, requestId)
           break
         case 'order':
-          await this.handleOrder(clientId, message.payload)
+          await this.handleOrder(clientId, message.payload, requestId)
           break
         case 'closePosition':
-          await this.handleClosePosition(clientId, message.payload)
+          await this.handleClosePosition(clientId, message.payload, requestId)
+          break
+        case 'amendPosition':
+          await this.handleAmendPosition(clientId, message.payload, requestId)
+          break
+        case 'cancelOrder':
+          await this.handleCancelOrder(clientId, message.payload, requestId)
+          break
+        case 'amendOrder':
+          await this.handleAmendOrder(clientId, message.payload, requestId)
+          break
+        case 'resume':
+          this.handleResume(clientId, message.payload, requestId)
+          break
+        case 'getAccount':
+        case 'getPositions':
+        case 'getOrders':
+          await this.handleSnapshotRequest(clientId, message.type, message.payload, requestId)
           break
         case 'ping':
           this.sendToClient(clientId, {
             type: 'pong',
             payload: {},
             timestamp: Date.now(),
+            requestId,
           })
           break
-        default:
-          this.sendError(clientId, `Unknown message type: ${message.type}`)
       }
     } catch (error) {
-      logger.error({ error, clientId }, 'Error handling client message')
-      this.sendError(clientId, 'Invalid message format')
+      logger.error({ error, clientId, type: message.type }, 'Error handling client message')
+      this.sendError(clientId, 'REQUEST_FAILED', 'Failed to process message', requestId)
     }
   }
 
-  private async handleAuthenticate(clientId: string, payload: any): Promise<void> {
+  private async handleAuthenticate(clientId: string, payload: AuthenticatePayload, requestId?: string): Promise<void> {
     const connection = this.clients.get(clientId)
     if (!connection) return
 
+    let userId: string
+    let expiresAt: Date
+
     try {
-      const { userId, token } = payload
+      ({ userId, expiresAt } = this.jwtVerifier.verify(payload.token))
+    } catch (error) {
+      const reason = error instanceof JwtVerificationError ? error.message : 'Token verification failed'
+      logger.warn({ clientId, reason }, 'Rejected authentication token')
+      this.sendError(clientId, 'INVALID_TOKEN', 'Invalid or expired token', requestId, 'payload.token')
+      return
+    }
+
+    if (payload.userId && payload.userId !== userId) {
+      this.sendError(clientId, 'INVALID_TOKEN', 'Token does not belong to userId', requestId, 'payload.userId')
+      return
+    }
 
-      if (!userId || !token) {
-        this.sendError(clientId, 'Missing userId or token')
+    if (connection.state.isAuthenticated) {
+      if (connection.userId !== userId) {
+        this.sendError(clientId, 'ALREADY_AUTHENTICATED', 'Connection already authenticated as another user', requestId)
         return
       }
 
+      this.scheduleTokenExpiry(clientId, connection, expiresAt)
+      logger.info({ clientId, userId, expiresAt }, 'Client re-authenticated')
+      this.sendAuthenticated(clientId, connection, requestId)
+      return
+    }
+
+    try {
       const isValid = await this.authManager.validateToken(userId)
       
       if (!isValid) {
-        this.sendError(clientId, 'Invalid or expired token')
+        this.sendError(clientId, 'NO_CREDENTIALS', 'No cTrader credentials found for user', requestId)
         return
       }
 
@@ -212,284 +751,770 @@ export class WebSocketServer extends EventEmitter {
       )
 
       if (userConnections.length >= config.rateLimit.maxConnectionsPerUser) {
-        this.sendError(clientId, 'Maximum connections per user exceeded')
+        this.sendError(clientId, 'TOO_MANY_CONNECTIONS', 'Maximum connections per user exceeded', requestId)
         return
       }
 
+      if (this.clients.get(clientId) !== connection) return
+
       connection.userId = userId
       connection.state.userId = userId
       connection.state.isAuthenticated = true
+      this.scheduleTokenExpiry(clientId, connection, expiresAt)
+      this.issueResumeToken(clientId)
 
-      logger.info({ clientId, userId }, 'Client authenticated')
+      logger.info({ clientId, userId, expiresAt }, 'Client authenticated')
 
-      this.sendToClient(clientId, {
-        type: 'authenticated',
-        payload: { userId },
-        timestamp: Date.now(),
-      })
+      this.sendAuthenticated(clientId, connection, requestId)
     } catch (error) {
       logger.error({ error, clientId }, 'Authentication failed')
-      this.sendError(clientId, 'Authentication failed')
+      this.sendError(clientId, 'AUTHENTICATION_FAILED', 'Authentication failed', requestId)
     }
   }
 
-  private async handleConnect(clientId: string, payload: any): Promise<void> {
+  private sendAuthenticated(clientId: string, connection: ClientConnection, requestId?: string): void {
+    this.sendToClient(clientId, {
+      type: 'authenticated',
+      payload: {
+        userId: connection.userId,
+        expiresAt: connection.tokenExpiresAt!.getTime(),
+        resumeToken: connection.resumeToken!,
+        resumeGracePeriodMs: config.connection.resumeGracePeriodMs,
+      },
+      timestamp: Date.now(),
+      requestId,
+    })
+  }
+
+  private scheduleTokenExpiry(clientId: string, connection: ClientConnection, expiresAt: Date): void {
+    if (connection.tokenExpiryTimer) {
+      clearTimeout(connection.tokenExpiryTimer)
+    }
+
+    connection.tokenExpiresAt = expiresAt
+    const delayMs = Math.min(Math.max(expiresAt.getTime() - Date.now(), 0), MAX_TIMER_DELAY_MS)
+
+    connection.tokenExpiryTimer = setTimeout(() => {
+      if (connection.tokenExpiresAt && connection.tokenExpiresAt.getTime() > Date.now()) {
+        this.scheduleTokenExpiry(connection.binding.clientId, connection, connection.tokenExpiresAt)
+        return
+      }
+      this.expireClient(connection.binding.clientId)
+    }, delayMs)
+  }
+
+  private expireClient(clientId: string): void {
+    const connection = this.clients.get(clientId)
+    if (!connection) return
+
+    logger.info({ clientId, userId: connection.userId }, 'Authentication token expired, closing connection')
+
+    this.sendError(clientId, 'TOKEN_EXPIRED', 'Authentication token expired')
+    connection.outbound.end()
+    this.removeClient(clientId)
+    connection.ws.close(4001, 'Token expired')
+  }
+
+  private async handleConnect(clientId: string, payload: ConnectPayload, requestId?: string): Promise<void> {
     const connection = this.clients.get(clientId)
     if (!connection) return
 
     if (!connection.state.isAuthenticated) {
-      this.sendError(clientId, 'Not authenticated')
+      this.sendError(clientId, 'NOT_AUTHENTICATED', 'Not authenticated', requestId)
       return
     }
 
-    try {
-      const { accountId } = payload
+    const { accountId } = payload
+    const existing = connection.accounts.get(accountId)
 
-      if (!accountId) {
-        this.sendError(clientId, 'Missing accountId')
-        return
+    if (existing) {
+      if (existing.session) {
+        this.sendAccountSnapshot(clientId, existing.session, requestId)
+      } else {
+        existing.connectRequestId = requestId
       }
+      return
+    }
+
+    if (connection.accounts.size >= config.connection.maxAccountsPerClient) {
+      this.sendError(clientId, 'TOO_MANY_ACCOUNTS', 'Maximum accounts per connection exceeded', requestId, undefined, accountId)
+      return
+    }
+
+    const account: AccountBinding = { accountId, session: null, subscriptions: new Set(), connectRequestId: requestId }
+    connection.accounts.set(accountId, account)
 
+    try {
       const credentials = await this.authManager.getCredentials(connection.userId)
       
       if (!credentials) {
-        this.sendError(clientId, 'No credentials found')
+        connection.accounts.delete(accountId)
+        this.sendError(clientId, 'NO_CREDENTIALS', 'No credentials found', requestId, undefined, accountId)
         return
       }
 
-      const ctraderClient = new ProtoOAClient(this.messageHandler, credentials, accountId)
+      logger.info({ clientId, userId: connection.userId, accountId }, 'Connecting to cTrader')
 
-      ctraderClient.on('connected', () => {
-        logger.info({ clientId, userId: connection.userId }, 'cTrader client connected')
-      })
+      const { session, created } = await this.sessionRegistry.attach(clientId, credentials, accountId)
 
-      ctraderClient.on('authenticated', () => {
-        logger.info({ clientId, userId: connection.userId }, 'cTrader client authenticated')
-      })
+      if (this.clients.get(clientId) !== connection || connection.accounts.get(accountId) !== account) {
+        this.sessionRegistry.detach(clientId, session)
+        return
+      }
 
-      ctraderClient.on('accountAuthorized', (account) => {
-        logger.info({ clientId, userId: connection.userId, accountId: account.accountId }, 'Account authorized')
-        connection.state.isConnectedToCTrader = true
-        connection.state.accountId = account.accountId
+      account.session = session
+      this.updateConnectionState(connection)
 
-        this.supabaseClient.setConnectionStatus(connection.userId, true)
-        this.supabaseClient.updateAccountInfo(connection.userId, account)
+      if (!created && session.account) {
+        this.sendAccountSnapshot(clientId, session)
+      }
+    } catch (error) {
+      logger.error({ error, clientId, accountId }, 'Failed to connect to cTrader')
+      if (connection.accounts.get(accountId) === account) {
+        connection.accounts.delete(accountId)
+      }
+      this.sendError(clientId, 'UPSTREAM_CONNECT_FAILED', 'Failed to connect to cTrader', requestId, undefined, accountId)
+    }
+  }
 
-        this.sendToClient(clientId, {
-          type: 'accountUpdate',
-          payload: account,
-          timestamp: Date.now(),
-        })
-      })
+  private handleDisconnect(clientId: string, payload: AccountScopedPayload, requestId?: string): void {
+    const connection = this.clients.get(clientId)
+    if (!connection) return
 
-      ctraderClient.on('positionUpdate', (positions) => {
-        this.sendToClient(clientId, {
-          type: 'positionUpdate',
-          payload: positions,
-          timestamp: Date.now(),
-        })
-      })
+    const accountIds = payload.accountId ? [payload.accountId] : Array.from(connection.accounts.keys())
 
-      ctraderClient.on('executionEvent', (event) => {
-        this.sendToClient(clientId, {
-          type: 'executionEvent',
-          payload: event,
-          timestamp: Date.now(),
-        })
-      })
+    if (accountIds.length === 0 || accountIds.some(accountId => !connection.accounts.has(accountId))) {
+      this.sendError(clientId, 'NOT_CONNECTED', 'Not connected to cTrader', requestId, undefined, payload.accountId)
+      return
+    }
 
-      ctraderClient.on('spotEvent', (event) => {
-        this.sendToClient(clientId, {
-          type: 'spotEvent',
-          payload: event,
-          timestamp: Date.now(),
-        })
-      })
+    for (const accountId of accountIds) {
+      this.detachAccount(connection, accountId)
+
+      logger.info({ clientId, userId: connection.userId, accountId }, 'Disconnected from cTrader')
 
-      ctraderClient.on('error', (error) => {
-        logger.error({ error, clientId, userId: connection.userId }, 'cTrader client error')
-        this.sendError(clientId, error.message)
+      this.sendToClient(clientId, {
+        type: 'disconnected',
+        payload: { accountId, reason: 'Client request' },
+        timestamp: Date.now(),
+        requestId,
+        accountId,
       })
+    }
+  }
 
-      ctraderClient.on('disconnected', (code, reason) => {
-        logger.warn({ clientId, userId: connection.userId, code, reason }, 'cTrader client disconnected')
-        connection.state.isConnectedToCTrader = false
-        this.supabaseClient.setConnectionStatus(connection.userId, false)
+  private detachAccount(connection: ClientConnection, accountId: string): void {
+    const account = connection.accounts.get(accountId)
+    if (!account) return
 
-        this.sendToClient(clientId, {
-          type: 'disconnected',
-          payload: { code, reason },
-          timestamp: Date.now(),
-        })
-      })
+    connection.accounts.delete(accountId)
 
-      connection.ctraderClient = ctraderClient
-      await ctraderClient.connect()
+    if (account.session) {
+      this.releaseSubscriptions(account)
+      this.sessionRegistry.detach(connection.binding.clientId, account.session)
+    }
 
-      logger.info({ clientId, userId: connection.userId, accountId }, 'Connecting to cTrader')
+    this.updateConnectionState(connection)
+  }
 
-    } catch (error) {
-      logger.error({ error, clientId }, 'Failed to connect to cTrader')
-      this.sendError(clientId, 'Failed to connect to cTrader')
+  private detachAllAccounts(connection: ClientConnection): void {
+    for (const accountId of Array.from(connection.accounts.keys())) {
+      this.detachAccount(connection, accountId)
     }
   }
 
-  private handleDisconnect(clientId: string): void {
+  private updateConnectionState(connection: ClientConnection): void {
+    const attached = Array.from(connection.accounts.values()).filter(account => account.session)
+    connection.state.accountIds = attached.map(account => account.accountId)
+    connection.state.isConnectedToCTrader = attached.some(account => account.session!.client.isAuthenticated())
+  }
+
+  private resolveAccount(
+    clientId: string,
+    accountId: string | undefined,
+    requestId?: string,
+    onRejected?: (code: ErrorCode, errorMessage: string) => void
+  ): AccountBinding | null {
     const connection = this.clients.get(clientId)
-    if (!connection) return
+    if (!connection) return null
 
-    if (connection.ctraderClient) {
-      connection.ctraderClient.disconnect()
-      connection.ctraderClient = null
-      connection.state.isConnectedToCTrader = false
+    if (accountId === undefined && connection.accounts.size > 1) {
+      const errorMessage = 'payload.accountId is required when several accounts are connected'
+      this.sendError(clientId, 'VALIDATION_FAILED', errorMessage, requestId, 'payload.accountId')
+      onRejected?.('VALIDATION_FAILED', errorMessage)
+      return null
+    }
 
-      if (connection.userId) {
-        this.supabaseClient.setConnectionStatus(connection.userId, false)
-      }
+    const account = accountId === undefined
+      ? connection.accounts.values().next().value
+      : connection.accounts.get(accountId)
 
-      logger.info({ clientId, userId: connection.userId }, 'Disconnected from cTrader')
+    if (!account?.session?.client.isAuthenticated()) {
+      this.sendError(clientId, 'NOT_CONNECTED', 'Not connected to cTrader', requestId, undefined, accountId)
+      onRejected?.('NOT_CONNECTED', 'Not connected to cTrader')
+      return null
     }
+
+    return account
   }
 
-  private async handleSubscribe(clientId: string, payload: any): Promise<void> {
+  private sendAccountSnapshot(clientId: string, session: UpstreamSession, requestId?: string): void {
     const connection = this.clients.get(clientId)
-    if (!connection || !connection.ctraderClient?.isAuthenticated()) {
-      this.sendError(clientId, 'Not connected to cTrader')
-      return
+    const account = connection?.accounts.get(session.accountId)
+    if (!connection || !account || !session.account) return
+
+    this.updateConnectionState(connection)
+
+    this.sendToClient(clientId, {
+      type: 'accountUpdate',
+      payload: session.account,
+      timestamp: Date.now(),
+      requestId: requestId ?? account.connectRequestId,
+      accountId: session.accountId,
+    })
+    account.connectRequestId = undefined
+
+    if (session.positions.length > 0) {
+      this.sendToClient(clientId, {
+        type: 'positionUpdate',
+        payload: session.positions,
+        timestamp: Date.now(),
+        accountId: session.accountId,
+      })
     }
-    logger.info({ clientId, payload }, 'Subscribe request')
   }
 
-  private async handleUnsubscribe(clientId: string, payload: any): Promise<void> {
-    const connection = this.clients.get(clientId)
-    if (!connection || !connection.ctraderClient?.isAuthenticated()) {
-      this.sendError(clientId, 'Not connected to cTrader')
-      return
+  private async handleSubscribe(clientId: string, payload: SymbolsPayload, requestId?: string): Promise<void> {
+    const account = this.resolveAccount(clientId, payload.accountId, requestId)
+    if (!account) return
+
+    const added = payload.symbolIds.filter(symbolId => !account.subscriptions.has(symbolId))
+    added.forEach(symbolId => account.subscriptions.add(symbolId))
+    account.session!.client.subscribeSpots(added)
+
+    logger.info({ clientId, accountId: account.accountId, symbolIds: added }, 'Subscribed to spots')
+
+    this.sendToClient(clientId, {
+      type: 'subscribed',
+      payload: { symbolIds: Array.from(account.subscriptions) },
+      timestamp: Date.now(),
+      requestId,
+      accountId: account.accountId,
+    })
+  }
+
+  private async handleUnsubscribe(clientId: string, payload: SymbolsPayload, requestId?: string): Promise<void> {
+    const account = this.resolveAccount(clientId, payload.accountId, requestId)
+    if (!account) return
+
+    const removed = payload.symbolIds.filter(symbolId => account.subscriptions.has(symbolId))
+    removed.forEach(symbolId => account.subscriptions.delete(symbolId))
+    account.session!.client.unsubscribeSpots(removed)
+
+    logger.info({ clientId, accountId: account.accountId, symbolIds: removed }, 'Unsubscribed from spots')
+
+    this.sendToClient(clientId, {
+      type: 'unsubscribed',
+      payload: { symbolIds: Array.from(account.subscriptions) },
+      timestamp: Date.now(),
+      requestId,
+      accountId: account.accountId,
+    })
+  }
+
+  private releaseSubscriptions(account: AccountBinding): void {
+    if (account.session && account.subscriptions.size > 0) {
+      account.session.client.unsubscribeSpots(Array.from(account.subscriptions))
     }
-    logger.info({ clientId, payload }, 'Unsubscribe request')
+    account.subscriptions.clear()
+  }
+
+  private async handleOrder(clientId: string, payload: OrderPayload, requestId?: string): Promise<void> {
+    const { accountId: _accountId, ...order } = payload
+    const { clientOrderId } = order
+
+    const userId = this.clients.get(clientId)?.userId
+
+    await this.executeTradingRequest(clientId, 'order', payload, requestId, async (client, clientMsgId, accountId) => {
+      const submit = async () => {
+        await this.riskEngine.checkOrder(userId!, payload, client)
+        return client.sendOrder(order, clientMsgId)
+      }
+
+      if (!clientOrderId) {
+        return submit()
+      }
+
+      const { result, duplicate } = this.submittedOrders.run(`${userId}:${accountId}:${clientOrderId}`, submit)
+      if (!duplicate) {
+        return result
+      }
+
+      logger.info({ clientId, userId, accountId, clientOrderId }, 'Duplicate order submission, returning original outcome')
+      return { ...(await result), duplicate: true }
+    })
+  }
+
+  private async handleClosePosition(clientId: string, payload: ClosePositionPayload, requestId?: string): Promise<void> {
+    await this.executeTradingRequest(clientId, 'closePosition', payload, requestId, (client, clientMsgId) =>
+      client.closePosition(payload.positionId, payload.volume, clientMsgId)
+    )
   }
 
-  private async handleOrder(clientId: string, payload: any): Promise<void> {
+  private async handleAmendPosition(clientId: string, payload: AmendPositionPayload, requestId?: string): Promise<void> {
+    const userId = this.clients.get(clientId)?.userId
+
+    await this.executeTradingRequest(clientId, 'amendPosition', payload, requestId, async (client, clientMsgId) => {
+      await this.riskEngine.checkAmendment(userId!, payload)
+      return client.amendPosition(payload.positionId, payload.stopLoss, payload.takeProfit, clientMsgId)
+    })
+  }
+
+  private async handleCancelOrder(clientId: string, payload: CancelOrderPayload, requestId?: string): Promise<void> {
+    await this.executeTradingRequest(clientId, 'cancelOrder', payload, requestId, (client, clientMsgId) =>
+      client.cancelOrder(payload.orderId, clientMsgId)
+    )
+  }
+
+  private async handleAmendOrder(clientId: string, payload: AmendOrderPayload, requestId?: string): Promise<void> {
+    const { orderId, ...changes } = payload
+    const userId = this.clients.get(clientId)?.userId
+
+    await this.executeTradingRequest(clientId, 'amendOrder', payload, requestId, async (client, clientMsgId) => {
+      await this.riskEngine.checkAmendment(userId!, changes)
+      return client.amendOrder(orderId, changes, clientMsgId)
+    })
+  }
+
+  private async executeTradingRequest(
+    clientId: string,
+    operation: string,
+    payload: AccountScopedPayload,
+    requestId: string | undefined,
+    execute: (client: SessionClient, clientMsgId: string, accountId: string) => Promise<OrderResult>
+  ): Promise<void> {
     const connection = this.clients.get(clientId)
-    if (!connection || !connection.ctraderClient?.isAuthenticated()) {
-      this.sendError(clientId, 'Not connected to cTrader')
-      return
+    const account = this.resolveAccount(clientId, payload.accountId, requestId, (code, errorMessage) =>
+      this.auditRejection(clientId, operation, payload, requestId, code, errorMessage)
+    )
+    if (!connection || !account) return
+
+    const { accountId } = account
+    const ctraderClient = account.session!.client
+    const clientMsgId = ctraderClient.nextClientMsgId()
+    connection.inFlightRequests.add(clientMsgId)
+    if (requestId) {
+      connection.pendingRequests.set(clientMsgId, requestId)
+    }
+
+    const requestedAt = new Date()
+    const audit = (outcome: Partial<AuditRecord> & Pick<AuditRecord, 'outcome'>) => {
+      const completedAt = new Date()
+      this.auditLog.record({
+        id: randomUUID(),
+        userId: connection.userId,
+        clientId,
+        accountId,
+        operation,
+        requestId,
+        clientMsgId,
+        request: { ...payload },
+        latencyMs: completedAt.getTime() - requestedAt.getTime(),
+        requestedAt: requestedAt.toISOString(),
+        completedAt: completedAt.toISOString(),
+        ...outcome,
+      })
     }
 
     try {
-      const { symbolId, orderType, tradeSide, volume, stopLoss, takeProfit, comment } = payload
+      logger.info({ clientId, userId: connection.userId, accountId, clientMsgId, operation, payload }, 'Sending trading request')
+
+      const result = await execute(ctraderClient, clientMsgId, accountId)
+
+      logger.info(
+        { clientId, userId: connection.userId, accountId, clientMsgId, operation, status: result.status },
+        'Trading request completed'
+      )
+      audit({
+        outcome: result.status,
+        orderId: result.orderId,
+        positionId: result.positionId,
+        errorCode: result.errorCode,
+        description: result.duplicate ? 'Duplicate submission, original outcome returned' : result.description,
+      })
+      this.sendOrderResult(clientId, result, requestId, accountId)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : `Failed to ${operation}`
 
-      if (!symbolId || !orderType || !tradeSide || !volume) {
-        this.sendError(clientId, 'Missing required order parameters')
+      if (error instanceof RiskRejectedError) {
+        audit({ outcome: 'rejected', errorCode: 'RISK_REJECTED', description: errorMessage })
+        this.sendToClient(clientId, {
+          type: 'riskRejected',
+          payload: { message: errorMessage, violations: error.violations },
+          timestamp: Date.now(),
+          requestId,
+          accountId,
+        })
         return
       }
 
-      connection.ctraderClient.sendOrder(
-        symbolId,
-        orderType,
-        tradeSide,
-        volume,
-        stopLoss,
-        takeProfit,
-        comment
-      )
+      logger.error({ error, clientId, accountId, clientMsgId, operation }, 'Trading request failed')
+      audit({ outcome: 'failed', description: errorMessage })
+      this.sendError(clientId, 'REQUEST_FAILED', errorMessage, requestId, undefined, accountId)
+    } finally {
+      connection.inFlightRequests.delete(clientMsgId)
+      connection.pendingRequests.delete(clientMsgId)
+    }
+  }
+
+  /** Records a trading request turned away before it reached cTrader; other requests and anonymous clients are skipped. */
+  private auditRejection(
+    clientId: string,
+    operation: string,
+    request: unknown,
+    requestId: string | undefined,
+    errorCode: string,
+    description: string
+  ): void {
+    const connection = this.clients.get(clientId)
+    if (!connection?.userId || !TRADING_MESSAGE_TYPES.includes(operation as ClientMessage['type'])) return
+
+    const payload = isPlainObject(request) ? request : {}
+    const onlyAccount = connection.accounts.size === 1 ? connection.accounts.keys().next().value : undefined
+    const now = new Date().toISOString()
+
+    this.auditLog.record({
+      id: randomUUID(),
+      userId: connection.userId,
+      clientId,
+      accountId: payload.accountId === undefined ? onlyAccount : String(payload.accountId),
+      operation,
+      requestId,
+      request: { ...payload },
+      outcome: 'rejected',
+      errorCode,
+      description,
+      latencyMs: 0,
+      requestedAt: now,
+      completedAt: now,
+    })
+  }
+
+  private async handleSnapshotRequest(
+    clientId: string,
+    type: 'getAccount' | 'getPositions' | 'getOrders',
+    payload: AccountScopedPayload,
+    requestId?: string
+  ): Promise<void> {
+    const account = this.resolveAccount(clientId, payload.accountId, requestId)
+    if (!account) return
 
-      logger.info({ clientId, userId: connection.userId, payload }, 'Order sent')
+    const { accountId } = account
+    const { client } = account.session!
+
+    try {
+      if (type === 'getAccount') {
+        this.sendToClient(clientId, {
+          type: 'accountUpdate',
+          payload: await client.getAccount(),
+          timestamp: Date.now(),
+          requestId,
+          accountId,
+        })
+        return
+      }
+
+      const { positions, orders } = await client.reconcile()
+
+      if (type === 'getPositions') {
+        this.sendToClient(clientId, {
+          type: 'positionUpdate',
+          payload: positions,
+          timestamp: Date.now(),
+          requestId,
+          accountId,
+        })
+      } else {
+        this.sendToClient(clientId, {
+          type: 'orderUpdate',
+          payload: orders,
+          timestamp: Date.now(),
+          requestId,
+          accountId,
+        })
+      }
     } catch (error) {
-      logger.error({ error, clientId }, 'Failed to send order')
-      this.sendError(clientId, 'Failed to send order')
+      logger.error({ error, clientId, accountId, type }, 'Snapshot request failed')
+      this.sendError(
+        clientId,
+        'REQUEST_FAILED',
+        error instanceof Error ? error.message : 'Snapshot request failed',
+        requestId,
+        undefined,
+        accountId
+      )
     }
   }
 
-  private async handleClosePosition(clientId: string, payload: any): Promise<void> {
+  private handleResume(clientId: string, payload: ResumePayload, requestId?: string): void {
     const connection = this.clients.get(clientId)
-    if (!connection || !connection.ctraderClient?.isAuthenticated()) {
-      this.sendError(clientId, 'Not connected to cTrader')
+    if (!connection) return
+
+    const resumedClientId = this.resumeTokens.get(payload.resumeToken)
+    const resumed = resumedClientId ? this.clients.get(resumedClientId) : undefined
+
+    if (!resumedClientId || !resumed || resumedClientId === clientId) {
+      this.sendError(clientId, 'INVALID_RESUME_TOKEN', 'Invalid or expired resume token', requestId, 'payload.resumeToken')
       return
     }
 
-    try {
-      const { positionId, volume } = payload
+    if (connection.state.isAuthenticated || connection.accounts.size > 0) {
+      this.sendError(clientId, 'ALREADY_AUTHENTICATED', 'Connection already authenticated', requestId)
+      return
+    }
 
-      if (!positionId || !volume) {
-        this.sendError(clientId, 'Missing positionId or volume')
-        return
-      }
+    if (resumed.resumeTimer) {
+      clearTimeout(resumed.resumeTimer)
+      resumed.resumeTimer = undefined
+    }
 
-      connection.ctraderClient.closePosition(positionId, volume)
+    if (!resumed.suspendedAt) {
+      resumed.ws.removeAllListeners()
+      resumed.ws.on('error', () => {})
+      resumed.ws.terminate()
+    }
 
-      logger.info({ clientId, userId: connection.userId, payload }, 'Close position sent')
-    } catch (error) {
-      logger.error({ error, clientId }, 'Failed to close position')
-      this.sendError(clientId, 'Failed to close position')
+    this.moveOutboundToReplay(resumed)
+
+    connection.binding.clientId = resumedClientId
+    resumed.ws = connection.ws
+    resumed.binding = connection.binding
+    resumed.encoding = connection.encoding
+    resumed.outbound = connection.outbound
+    resumed.suspendedAt = undefined
+    resumed.lastPing = new Date()
+    resumed.state.lastActivity = new Date()
+    resumed.state.reconnectAttempts++
+    metrics.clientResumes.inc()
+    this.clients.delete(clientId)
+    this.connectionRateLimiter.delete(clientId)
+
+    const replay = resumed.replayBuffer
+    resumed.replayBuffer = []
+    const resumeToken = this.issueResumeToken(resumedClientId)
+
+    logger.info(
+      { clientId: resumedClientId, userId: resumed.userId, replayed: replay.length },
+      'Client session resumed'
+    )
+
+    this.sendToClient(resumedClientId, {
+      type: 'resumed',
+      payload: {
+        clientId: resumedClientId,
+        userId: resumed.userId,
+        accounts: Array.from(resumed.accounts.values()).map(account => ({
+          accountId: account.accountId,
+          symbolIds: Array.from(account.subscriptions),
+        })),
+        resumeToken,
+        replayed: replay.length,
+      },
+      timestamp: Date.now(),
+      requestId,
+    })
+
+    for (const message of replay) {
+      this.sendToClient(resumedClientId, message)
+    }
+  }
+
+  private issueResumeToken(clientId: string): string {
+    const connection = this.clients.get(clientId)!
+
+    if (connection.resumeToken) {
+      this.resumeTokens.delete(connection.resumeToken)
     }
+
+    connection.resumeToken = randomBytes(24).toString('hex')
+    this.resumeTokens.set(connection.resumeToken, clientId)
+    return connection.resumeToken
   }
 
   private handleClientDisconnect(clientId: string): void {
+    const connection = this.clients.get(clientId)
+    if (!connection || connection.suspendedAt) return
+
+    if (
+      connection.state.isAuthenticated &&
+      connection.accounts.size > 0 &&
+      config.connection.resumeGracePeriodMs > 0
+    ) {
+      this.suspendClient(clientId, connection)
+      return
+    }
+
+    this.removeClient(clientId)
+  }
+
+  private suspendClient(clientId: string, connection: ClientConnection): void {
+    connection.suspendedAt = new Date()
+    this.moveOutboundToReplay(connection)
+    connection.resumeTimer = setTimeout(() => {
+      logger.info({ clientId, userId: connection.userId }, 'Resume grace period expired')
+      this.removeClient(clientId)
+    }, config.connection.resumeGracePeriodMs)
+
+    logger.info(
+      { clientId, userId: connection.userId, gracePeriodMs: config.connection.resumeGracePeriodMs },
+      'Client suspended, awaiting resume'
+    )
+  }
+
+  private removeClient(clientId: string): void {
     const connection = this.clients.get(clientId)
     if (!connection) return
 
-    if (connection.ctraderClient) {
-      connection.ctraderClient.disconnect()
+    if (connection.resumeTimer) {
+      clearTimeout(connection.resumeTimer)
     }
 
-    if (connection.userId) {
-      this.supabaseClient.setConnectionStatus(connection.userId, false)
+    if (connection.tokenExpiryTimer) {
+      clearTimeout(connection.tokenExpiryTimer)
+    }
+
+    if (connection.resumeToken) {
+      this.resumeTokens.delete(connection.resumeToken)
     }
 
+    connection.outbound.close()
+    this.detachAllAccounts(connection)
+    this.connectionRateLimiter.delete(clientId)
+
     this.clients.delete(clientId)
     logger.info({ clientId, userId: connection.userId }, 'Client removed')
   }
 
   private sendToClient(clientId: string, message: ServerMessage): void {
     const connection = this.clients.get(clientId)
-    if (!connection || connection.ws.readyState !== WebSocket.OPEN) {
+    if (!connection) return
+
+    if (connection.suspendedAt) {
+      this.bufferForReplay(connection, message)
       return
     }
 
-    try {
-      connection.ws.send(JSON.stringify(message))
-    } catch (error) {
-      logger.error({ error, clientId }, 'Failed to send message to client')
+    connection.outbound.enqueue(message)
+  }
+
+  private createOutboundQueue(ws: WebSocket, binding: SocketBinding, encoding: MessageEncoding): OutboundQueue {
+    return new OutboundQueue({
+      write: (message) => {
+        if (ws.readyState !== WebSocket.OPEN) {
+          return
+        }
+
+        try {
+          ws.send(encodeServerMessage(message, encoding))
+          metrics.outboundMessages.inc({ type: message.type })
+        } catch (error) {
+          logger.error({ error, clientId: binding.clientId }, 'Failed to send message to client')
+        }
+      },
+      bufferedAmount: () => ws.bufferedAmount,
+      onOverflow: (reason) => {
+        logger.warn({ clientId: binding.clientId, bufferedAmount: ws.bufferedAmount, reason }, 'Disconnecting slow consumer')
+        metrics.slowConsumerDisconnects.inc()
+        ws.terminate()
+      },
+    })
+  }
+
+  private moveOutboundToReplay(connection: ClientConnection): void {
+    connection.droppedMessages += connection.outbound.droppedCount
+    connection.conflatedMessages += connection.outbound.conflatedCount
+
+    for (const message of connection.outbound.drain()) {
+      this.bufferForReplay(connection, message)
+    }
+  }
+
+  private bufferForReplay(connection: ClientConnection, message: ServerMessage): void {
+    if (!REPLAYABLE_MESSAGE_TYPES.includes(message.type)) {
+      connection.droppedMessages++
+      metrics.clientDroppedMessages.inc()
+      return
+    }
+
+    connection.replayBuffer.push(message)
+    if (connection.replayBuffer.length > config.connection.resumeBufferSize) {
+      connection.replayBuffer.shift()
+      connection.droppedMessages++
+      metrics.clientDroppedMessages.inc()
     }
   }
 
-  private sendError(clientId: string, errorMessage: string): void {
+  private broadcastToSession(session: UpstreamSession, message: ServerMessage): void {
+    for (const clientId of session.clientIds) {
+      this.sendToClient(clientId, message)
+    }
+  }
+
+  private sendOrderResult(clientId: string, result: OrderResult, requestId?: string, accountId?: string): void {
+    this.sendToClient(clientId, {
+      type: 'orderResult',
+      payload: result,
+      timestamp: Date.now(),
+      requestId,
+      accountId,
+    })
+  }
+
+  private sendError(
+    clientId: string,
+    code: ErrorCode,
+    errorMessage: string,
+    requestId?: string,
+    field?: string,
+    accountId?: string
+  ): void {
     this.sendToClient(clientId, {
       type: 'error',
-      payload: { message: errorMessage },
+      payload: { code, message: errorMessage, field },
       timestamp: Date.now(),
+      requestId,
+      accountId,
     })
   }
 
-  private checkRateLimit(clientId: string, messageType: string): boolean {
+  private checkRateLimit(
+    clientId: string,
+    messageType: string
+  ): { scope: 'connection' | 'user'; retryAfterMs: number } | null {
     const connection = this.clients.get(clientId)
-    if (!connection) return false
+    if (!connection) return null
 
-    const key = `${messageType}_${Date.now()}`
-    const now = Date.now()
+    const cost = config.rateLimit.messageCosts[messageType] ?? 1
 
-    for (const [k, entry] of connection.rateLimits.entries()) {
-      if (entry.resetAt < now) {
-        connection.rateLimits.delete(k)
-      }
-    }
+    const connectionRetryAfterMs = this.connectionRateLimiter.retryAfter(clientId, cost)
+    const userRetryAfterMs = connection.userId
+      ? this.userRateLimiter.retryAfter(connection.userId, cost)
+      : 0
 
-    const messageCount = Array.from(connection.rateLimits.values()).filter(
-      entry => entry.resetAt > now
-    ).length
+    if (connectionRetryAfterMs > 0 || userRetryAfterMs > 0) {
+      const scope = userRetryAfterMs > connectionRetryAfterMs ? 'user' : 'connection'
+      const retryAfterMs = Math.max(connectionRetryAfterMs, userRetryAfterMs)
 
-    if (messageCount >= config.rateLimit.messageRateLimit) {
-      logger.warn({ clientId, messageType }, 'Rate limit exceeded')
-      return false
+      logger.warn({ clientId, userId: connection.userId, messageType, scope, retryAfterMs }, 'Rate limit exceeded')
+      return { scope, retryAfterMs: Number.isFinite(retryAfterMs) ? retryAfterMs : config.rateLimit.rateLimitWindowMs }
     }
 
-    connection.rateLimits.set(key, {
-      count: 1,
-      resetAt: now + config.rateLimit.rateLimitWindowMs,
-    })
+    this.connectionRateLimiter.consume(clientId, cost)
+    if (connection.userId) {
+      this.userRateLimiter.consume(connection.userId, cost)
+    }
 
-    return true
+    return null
   }
 
   private performHealthCheck(): void {
@@ -497,6 +1522,7 @@ export class WebSocketServer extends EventEmitter {
 
     for (const [clientId, connection] of this.clients.entries()) {
       if (connection.ws.readyState === WebSocket.OPEN) {
+        connection.pingSentAt = now
         connection.ws.ping()
 
         const timeSinceLastPing = now - connection.lastPing.getTime()
@@ -510,9 +1536,37 @@ export class WebSocketServer extends EventEmitter {
       }
     }
 
+    this.connectionRateLimiter.prune()
+    this.userRateLimiter.prune()
+    this.submittedOrders.prune()
+
     logger.debug({ activeClients: this.clients.size }, 'Health check completed')
   }
 
+  private connectionQuality(connection: ClientConnection): ConnectionQuality {
+    return {
+      rttMs: connection.rttMs,
+      queueDepth: connection.outbound.depth(),
+      droppedMessages: connection.droppedMessages + connection.outbound.droppedCount,
+      conflatedMessages: connection.conflatedMessages + connection.outbound.conflatedCount,
+      reconnects: connection.state.reconnectAttempts,
+    }
+  }
+
+  private reportConnectionQuality(): void {
+    for (const [clientId, connection] of this.clients.entries()) {
+      if (connection.suspendedAt || !connection.state.isAuthenticated) {
+        continue
+      }
+
+      this.sendToClient(clientId, {
+        type: 'connectionQuality',
+        payload: this.connectionQuality(connection),
+        timestamp: Date.now(),
+      })
+    }
+  }
+
   private generateClientId(): string {
     return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
   }
@@ -521,29 +1575,36 @@ export class WebSocketServer extends EventEmitter {
     return new Promise((resolve) => {
       this.httpServer.listen(config.server.port, () => {
         logger.info({ port: config.server.port }, 'WebSocket server started')
+        if (!config.security.adminApiKey) {
+          logger.warn('ADMIN_API_KEY is not set, admin routes are disabled')
+        }
         resolve()
       })
     })
   }
 
-  public async stop(): Promise<void> {
-    logger.info('Stopping WebSocket server')
+  public stop(): Promise<void> {
+    if (!this.stopPromise) {
+      this.stopPromise = this.drainAndStop()
+    }
+    return this.stopPromise
+  }
+
+  private async drainAndStop(): Promise<void> {
+    logger.info({ drainTimeoutMs: config.server.shutdownDrainTimeoutMs }, 'Draining WebSocket server')
+
+    this.draining = true
 
     if (this.healthCheckInterval) {
       clearInterval(this.healthCheckInterval)
     }
 
-    for (const [clientId, connection] of this.clients.entries()) {
-      if (connection.ctraderClient) {
-        connection.ctraderClient.disconnect()
-      }
-      connection.ws.close(1000, 'Server shutdown')
+    if (this.qualityReportInterval) {
+      clearInterval(this.qualityReportInterval)
     }
 
-    this.clients.clear()
-
-    await new Promise<void>((resolve, reject) => {
-      this.wss.close((error) => {
+    const httpClosed = new Promise<void>((resolve, reject) => {
+      this.httpServer.close((error) => {
         if (error) {
           reject(error)
         } else {
@@ -552,8 +1613,42 @@ export class WebSocketServer extends EventEmitter {
       })
     })
 
+    for (const clientId of this.clients.keys()) {
+      this.sendToClient(clientId, {
+        type: 'serverShutdown',
+        payload: {
+          reason: 'Server is shutting down',
+          reconnectAfterMs: config.server.shutdownReconnectDelayMs,
+          drainTimeoutMs: config.server.shutdownDrainTimeoutMs,
+        },
+        timestamp: Date.now(),
+      })
+    }
+
+    const drained = await this.waitForPendingRequests(config.server.shutdownDrainTimeoutMs)
+    if (!drained) {
+      logger.warn({ pendingRequests: this.countPendingRequests() }, 'Drain timeout reached with requests in flight')
+    }
+
+    logger.info('Stopping WebSocket server')
+
+    for (const connection of this.clients.values()) {
+      if (connection.resumeTimer) {
+        clearTimeout(connection.resumeTimer)
+      }
+      if (connection.tokenExpiryTimer) {
+        clearTimeout(connection.tokenExpiryTimer)
+      }
+      connection.outbound.end()
+      connection.ws.close(1012, 'Server shutdown')
+    }
+
+    this.clients.clear()
+    this.resumeTokens.clear()
+    await this.sessionRegistry.stop()
+
     await new Promise<void>((resolve, reject) => {
-      this.httpServer.close((error) => {
+      this.wss.close((error) => {
         if (error) {
           reject(error)
         } else {
@@ -562,6 +1657,29 @@ export class WebSocketServer extends EventEmitter {
       })
     })
 
+    await httpClosed
+
     logger.info('WebSocket server stopped')
   }
+
+  private countPendingRequests(): number {
+    let count = 0
+    for (const connection of this.clients.values()) {
+      count += connection.inFlightRequests.size
+    }
+    return count
+  }
+
+  private async waitForPendingRequests(timeoutMs: number): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs
+
+    while (this.countPendingRequests() > 0) {
+      if (Date.now() >= deadline) {
+        return false
+      }
+      await new Promise(resolve => setTimeout(resolve, DRAIN_POLL_INTERVAL_MS))
+    }
+
+    return true
+  }
 }
@@ -0,0 +1,45 @@
+import { encode, decode } from '@msgpack/msgpack'
+import { ServerMessage } from '../types'
+import { ValidationError } from './validation'
+
+export type MessageEncoding = 'json' | 'msgpack'
+
+export const SUBPROTOCOLS: Record<string, MessageEncoding> = {
+  'mahspeccy.msgpack': 'msgpack',
+  'mahspeccy.json': 'json',
+}
+
+/**
+ * Only ever selects an encoding protocol: echoing the API key protocol would return the key in a response
+ * header. Browsers that send the key as a protocol must offer an encoding protocol alongside it, since they
+ * fail the handshake when none of their protocols is selected.
+ */
+export function selectSubprotocol(offered: Set<string>): string | false {
+  return Object.keys(SUBPROTOCOLS).find(protocol => offered.has(protocol)) || false
+}
+
+export function encodingForSubprotocol(protocol: string): MessageEncoding {
+  return SUBPROTOCOLS[protocol] || 'json'
+}
+
+export function encodeServerMessage(message: ServerMessage, encoding: MessageEncoding): string | Buffer {
+  if (encoding === 'msgpack') {
+    const bytes = encode(message, { ignoreUndefined: true })
+    return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+  return JSON.stringify(message)
+}
+
+export function decodeClientMessage(data: Buffer, isBinary: boolean, encoding: MessageEncoding): unknown {
+  try {
+    if (isBinary && encoding === 'msgpack') {
+      return decode(data)
+    }
+    return JSON.parse(data.toString())
+  } catch {
+    throw new ValidationError(
+      'INVALID_MESSAGE',
+      encoding === 'msgpack' ? 'Message is not valid MessagePack or JSON' : 'Message is not valid JSON'
+    )
+  }
+}
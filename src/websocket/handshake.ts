@@ -0,0 +1,110 @@
+import { IncomingMessage } from 'http'
+import { createHash, timingSafeEqual } from 'crypto'
+import { config } from '../config'
+
+export const API_KEY_HEADER = 'x-api-key'
+export const API_KEY_SUBPROTOCOL_PREFIX = 'mahspeccy.key.'
+
+export type HandshakeRejectionReason = 'origin_not_allowed' | 'missing_api_key' | 'invalid_api_key'
+
+export interface HandshakeRejection {
+  reason: HandshakeRejectionReason
+  status: number
+  message: string
+}
+
+/** Compares digests so neither the contents nor the length of the expected key leak through timing. */
+function safeEqual(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest()
+  return timingSafeEqual(digest(a), digest(b))
+}
+
+export function parseSubprotocols(header: string | undefined): string[] {
+  return (header || '').split(',').map(protocol => protocol.trim()).filter(Boolean)
+}
+
+export function isApiKeySubprotocol(protocol: string): boolean {
+  return protocol.startsWith(API_KEY_SUBPROTOCOL_PREFIX)
+}
+
+function headerApiKey(req: IncomingMessage): string | undefined {
+  const header = req.headers[API_KEY_HEADER]
+  if (typeof header === 'string' && header.length > 0) {
+    return header
+  }
+
+  const authorization = req.headers.authorization
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length)
+  }
+
+  return undefined
+}
+
+function extractApiKey(req: IncomingMessage): string | undefined {
+  const header = headerApiKey(req)
+  if (header) {
+    return header
+  }
+
+  const protocol = parseSubprotocols(req.headers['sec-websocket-protocol']).find(isApiKeySubprotocol)
+  return protocol?.slice(API_KEY_SUBPROTOCOL_PREFIX.length)
+}
+
+export function hasValidAdminKey(req: IncomingMessage): boolean {
+  const apiKey = headerApiKey(req)
+  const { adminApiKey } = config.security
+  return adminApiKey.length > 0 && apiKey !== undefined && safeEqual(apiKey, adminApiKey)
+}
+
+export function isOriginAllowed(origin: string | undefined): boolean {
+  const { allowedOrigins } = config.security
+
+  if (!origin || allowedOrigins.length === 0 || allowedOrigins.includes('*')) {
+    return true
+  }
+
+  return allowedOrigins.includes(origin)
+}
+
+export function verifyHandshake(req: IncomingMessage): HandshakeRejection | null {
+  if (!isOriginAllowed(req.headers.origin)) {
+    return { reason: 'origin_not_allowed', status: 403, message: 'Forbidden' }
+  }
+
+  const apiKey = extractApiKey(req)
+  if (!apiKey) {
+    return { reason: 'missing_api_key', status: 401, message: 'Unauthorized' }
+  }
+
+  if (!safeEqual(apiKey, config.security.apiKey)) {
+    return { reason: 'invalid_api_key', status: 401, message: 'Unauthorized' }
+  }
+
+  return null
+}
+
+function isTrustedProxy(address: string): boolean {
+  const normalized = address.startsWith('::ffff:') ? address.slice('::ffff:'.length) : address
+  return config.security.trustedProxies.includes(normalized)
+}
+
+/**
+ * The peer address, or the client address a trusted proxy forwarded. Hops are read from the nearest one back
+ * and the first untrusted hop wins, because anything further left may have been written by the client.
+ */
+export function remoteAddress(req: IncomingMessage): string | undefined {
+  const peer = req.socket.remoteAddress
+  const forwarded = req.headers['x-forwarded-for']
+  if (!peer || !isTrustedProxy(peer) || typeof forwarded !== 'string') {
+    return peer
+  }
+
+  const hops = forwarded.split(',').map(hop => hop.trim()).filter(Boolean)
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(hops[i])) {
+      return hops[i]
+    }
+  }
+  return hops[0] ?? peer
+}
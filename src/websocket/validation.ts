@@ -0,0 +1,265 @@
+import { ClientMessage, ClientMessageType, ErrorCode } from '../types'
+
+type FieldType = 'string' | 'id' | 'integer' | 'number' | 'integerArray'
+
+interface FieldRule {
+  type: FieldType
+  required?: boolean
+  min?: number
+  max?: number
+  maxLength?: number
+  oneOf?: number[]
+}
+
+type PayloadSchema = Record<string, FieldRule>
+
+/** Cross-field check run once every field has passed; returns the offending field and why. */
+type PayloadCheck = (payload: Record<string, unknown>) => { field: string; message: string } | null
+
+export class ValidationError extends Error {
+  readonly code: ErrorCode
+  readonly field?: string
+  readonly requestId?: string
+
+  constructor(code: ErrorCode, message: string, field?: string, requestId?: string) {
+    super(message)
+    this.name = 'ValidationError'
+    this.code = code
+    this.field = field
+    this.requestId = requestId
+  }
+}
+
+/** MARKET, LIMIT, STOP, MARKET_RANGE and STOP_LIMIT; STOP_LOSS_TAKE_PROFIT is never placed directly. */
+const ORDER_TYPES = [1, 2, 3, 5, 6]
+
+const MARKET_ORDER_TYPES = [1, 5]
+
+const ORDER_PRICE_FIELDS: Record<number, string[]> = {
+  1: [],
+  2: ['limitPrice'],
+  3: ['stopPrice'],
+  5: ['baseSlippagePrice', 'slippageInPoints'],
+  6: ['stopPrice', 'slippageInPoints'],
+}
+const TRADE_SIDES = [1, 2]
+
+const ACCOUNT_SCOPE: PayloadSchema = {
+  accountId: { type: 'id' },
+}
+
+const schemas: Record<ClientMessageType, PayloadSchema> = {
+  authenticate: {
+    userId: { type: 'string', maxLength: 128 },
+    token: { type: 'string', required: true, maxLength: 8192 },
+  },
+  connect: {
+    accountId: { type: 'id', required: true },
+  },
+  disconnect: { ...ACCOUNT_SCOPE },
+  subscribe: {
+    ...ACCOUNT_SCOPE,
+    symbolIds: { type: 'integerArray', required: true, min: 1, maxLength: 500 },
+  },
+  unsubscribe: {
+    ...ACCOUNT_SCOPE,
+    symbolIds: { type: 'integerArray', required: true, min: 1, maxLength: 500 },
+  },
+  order: {
+    ...ACCOUNT_SCOPE,
+    symbolId: { type: 'integer', required: true, min: 1 },
+    orderType: { type: 'integer', required: true, oneOf: ORDER_TYPES },
+    tradeSide: { type: 'integer', required: true, oneOf: TRADE_SIDES },
+    volume: { type: 'integer', required: true, min: 1 },
+    limitPrice: { type: 'number', min: 0 },
+    stopPrice: { type: 'number', min: 0 },
+    baseSlippagePrice: { type: 'number', min: 0 },
+    slippageInPoints: { type: 'integer', min: 0 },
+    stopLoss: { type: 'number', min: 0 },
+    takeProfit: { type: 'number', min: 0 },
+    relativeStopLoss: { type: 'integer', min: 1 },
+    relativeTakeProfit: { type: 'integer', min: 1 },
+    comment: { type: 'string', maxLength: 512 },
+    clientOrderId: { type: 'string', maxLength: 50 },
+  },
+  closePosition: {
+    ...ACCOUNT_SCOPE,
+    positionId: { type: 'id', required: true },
+    volume: { type: 'integer', required: true, min: 1 },
+  },
+  amendPosition: {
+    ...ACCOUNT_SCOPE,
+    positionId: { type: 'id', required: true },
+    stopLoss: { type: 'number', min: 0 },
+    takeProfit: { type: 'number', min: 0 },
+  },
+  cancelOrder: {
+    ...ACCOUNT_SCOPE,
+    orderId: { type: 'id', required: true },
+  },
+  amendOrder: {
+    ...ACCOUNT_SCOPE,
+    orderId: { type: 'id', required: true },
+    volume: { type: 'integer', min: 1 },
+    limitPrice: { type: 'number', min: 0 },
+    stopPrice: { type: 'number', min: 0 },
+    stopLoss: { type: 'number', min: 0 },
+    takeProfit: { type: 'number', min: 0 },
+    relativeStopLoss: { type: 'integer', min: 1 },
+    relativeTakeProfit: { type: 'integer', min: 1 },
+    expirationTimestamp: { type: 'integer', min: 0 },
+  },
+  resume: {
+    resumeToken: { type: 'string', required: true, maxLength: 128 },
+  },
+  ping: {},
+  getAccount: { ...ACCOUNT_SCOPE },
+  getPositions: { ...ACCOUNT_SCOPE },
+  getOrders: { ...ACCOUNT_SCOPE },
+}
+
+/** Rejects a relative stop given alongside its absolute counterpart. */
+function stopsConflict(payload: Record<string, unknown>): { field: string; message: string } | null {
+  for (const [absolute, relative] of [['stopLoss', 'relativeStopLoss'], ['takeProfit', 'relativeTakeProfit']]) {
+    if (payload[absolute] !== undefined && payload[relative] !== undefined) {
+      return { field: `payload.${relative}`, message: `payload.${relative} cannot be combined with payload.${absolute}` }
+    }
+  }
+  return null
+}
+
+function requireChange(...fields: string[]): PayloadCheck {
+  return (payload) => fields.some(field => payload[field] !== undefined)
+    ? null
+    : { field: 'payload', message: `payload must change at least one of ${fields.join(', ')}` }
+}
+
+const payloadChecks: Partial<Record<ClientMessageType, PayloadCheck>> = {
+  order: (payload) => {
+    const required = ORDER_PRICE_FIELDS[payload.orderType as number]
+    const missing = required.find(field => payload[field] === undefined)
+    if (missing) {
+      return { field: `payload.${missing}`, message: `payload.${missing} is required for orderType ${payload.orderType}` }
+    }
+
+    const unexpected = Object.values(ORDER_PRICE_FIELDS)
+      .flat()
+      .find(field => payload[field] !== undefined && !required.includes(field))
+    if (unexpected) {
+      return { field: `payload.${unexpected}`, message: `payload.${unexpected} does not apply to orderType ${payload.orderType}` }
+    }
+
+    if (MARKET_ORDER_TYPES.includes(payload.orderType as number)) {
+      const absolute = ['stopLoss', 'takeProfit'].find(field => payload[field] !== undefined)
+      if (absolute) {
+        return {
+          field: `payload.${absolute}`,
+          message: `payload.${absolute} is not supported for market orders, use a relative stop instead`,
+        }
+      }
+    }
+    return stopsConflict(payload)
+  },
+  amendPosition: requireChange('stopLoss', 'takeProfit'),
+  amendOrder: (payload) => requireChange(
+    'volume',
+    'limitPrice',
+    'stopPrice',
+    'stopLoss',
+    'takeProfit',
+    'relativeStopLoss',
+    'relativeTakeProfit',
+    'expirationTimestamp'
+  )(payload) || stopsConflict(payload),
+}
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateField(value: unknown, rule: FieldRule, path: string, requestId?: string): unknown {
+  const fail = (message: string, field = path) => {
+    throw new ValidationError('VALIDATION_FAILED', message, field, requestId)
+  }
+
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string' || value.length === 0) fail(`${path} must be a non-empty string`)
+      if (rule.maxLength !== undefined && (value as string).length > rule.maxLength) {
+        fail(`${path} must be at most ${rule.maxLength} characters`)
+      }
+      return value
+
+    case 'id':
+      if (typeof value === 'number' && Number.isInteger(value) && value > 0) return String(value)
+      if (typeof value === 'string' && /^[1-9][0-9]*$/.test(value)) return value
+      return fail(`${path} must be a positive integer id`)
+
+    case 'integer':
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${path} must be a number`)
+      if (rule.type === 'integer' && !Number.isInteger(value)) fail(`${path} must be an integer`)
+      if (rule.min !== undefined && (value as number) < rule.min) fail(`${path} must be at least ${rule.min}`)
+      if (rule.max !== undefined && (value as number) > rule.max) fail(`${path} must be at most ${rule.max}`)
+      if (rule.oneOf && !rule.oneOf.includes(value as number)) fail(`${path} must be one of ${rule.oneOf.join(', ')}`)
+      return value
+
+    case 'integerArray': {
+      if (!Array.isArray(value)) return fail(`${path} must be an array`)
+      if (rule.min !== undefined && value.length < rule.min) fail(`${path} must contain at least ${rule.min} item(s)`)
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        fail(`${path} must contain at most ${rule.maxLength} items`)
+      }
+      value.forEach((item, index) => {
+        if (typeof item !== 'number' || !Number.isInteger(item) || item <= 0) {
+          fail(`${path}[${index}] must be a positive integer`, `${path}[${index}]`)
+        }
+      })
+      return Array.from(new Set(value))
+    }
+  }
+}
+
+export function parseClientMessage(data: unknown): ClientMessage {
+  if (!isPlainObject(data)) {
+    throw new ValidationError('INVALID_MESSAGE', 'Message must be an object')
+  }
+
+  if (data.requestId !== undefined && (typeof data.requestId !== 'string' || data.requestId.length > 128)) {
+    throw new ValidationError('VALIDATION_FAILED', 'requestId must be a string of at most 128 characters', 'requestId')
+  }
+  const requestId = data.requestId as string | undefined
+
+  if (typeof data.type !== 'string' || !Object.prototype.hasOwnProperty.call(schemas, data.type)) {
+    throw new ValidationError('UNKNOWN_MESSAGE_TYPE', `Unknown message type: ${String(data.type)}`, 'type', requestId)
+  }
+
+  const type = data.type as ClientMessageType
+  const rawPayload = data.payload === undefined ? {} : data.payload
+
+  if (!isPlainObject(rawPayload)) {
+    throw new ValidationError('VALIDATION_FAILED', 'payload must be an object', 'payload', requestId)
+  }
+
+  const payload: Record<string, unknown> = {}
+  for (const [field, rule] of Object.entries(schemas[type])) {
+    const value = rawPayload[field]
+    const path = `payload.${field}`
+
+    if (value === undefined || value === null) {
+      if (rule.required) {
+        throw new ValidationError('VALIDATION_FAILED', `${path} is required`, path, requestId)
+      }
+      continue
+    }
+
+    payload[field] = validateField(value, rule, path, requestId)
+  }
+
+  const failure = payloadChecks[type]?.(payload)
+  if (failure) {
+    throw new ValidationError('VALIDATION_FAILED', failure.message, failure.field, requestId)
+  }
+
+  return { type, payload, requestId } as ClientMessage
+}
@@ -0,0 +1,76 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config, validateConfig } from '../src/config'
+import { JWT_SECRET, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15360
+const ADMIN_API_KEY = 'test-admin-key-0123456789abcdef01234567'
+
+describe('admin routes', () => {
+  let bridge: TestBridge
+
+  before(async () => {
+    config.security.adminApiKey = ADMIN_API_KEY
+    bridge = await startBridge(BRIDGE_PORT)
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+  })
+
+  function admin(path: string, headers: Record<string, string> = {}, method = 'GET'): Promise<Response> {
+    return fetch(`http://127.0.0.1:${BRIDGE_PORT}/admin/${path}`, { method, headers })
+  }
+
+  it('only accepts the admin key', async () => {
+    assert.equal((await admin('clients')).status, 401)
+    assert.equal((await admin('clients', { 'x-api-key': config.security.apiKey })).status, 401)
+    assert.equal((await admin('clients', { authorization: `Bearer ${config.security.apiKey}` })).status, 401)
+    assert.equal((await admin('clients', { 'x-api-key': `${ADMIN_API_KEY}0` })).status, 401)
+
+    assert.equal((await admin('clients', { 'x-api-key': ADMIN_API_KEY })).status, 200)
+    assert.equal((await admin('clients', { authorization: `Bearer ${ADMIN_API_KEY}` })).status, 200)
+  })
+
+  it('rejects every request while no admin key is configured', async () => {
+    config.security.adminApiKey = ''
+    try {
+      assert.equal((await admin('clients', { 'x-api-key': config.security.apiKey })).status, 401)
+      assert.equal((await admin('clients', { authorization: 'Bearer ' })).status, 401)
+    } finally {
+      config.security.adminApiKey = ADMIN_API_KEY
+    }
+  })
+
+  it('lists and disconnects clients', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    const { clientId } = (await client.next('connected')).payload
+    const headers = { 'x-api-key': ADMIN_API_KEY }
+
+    const { clients } = await (await admin('clients', headers)).json() as { clients: { clientId: string }[] }
+    assert.ok(clients.some(described => described.clientId === clientId))
+
+    const disconnect = await admin(`clients/${clientId}/disconnect`, headers, 'POST')
+    assert.deepEqual(await disconnect.json(), { disconnected: [clientId] })
+    assert.equal((await client.closed).code, 4003)
+
+    assert.equal((await admin(`clients/${clientId}`, headers)).status, 404)
+  })
+})
+
+describe('admin key configuration', () => {
+  it('refuses an admin key that matches the browser key or is too short', () => {
+    const { adminApiKey } = config.security
+    config.supabase.jwtSecret = JWT_SECRET
+    try {
+      config.security.adminApiKey = ADMIN_API_KEY
+      validateConfig()
+      config.security.adminApiKey = config.security.apiKey
+      assert.throws(validateConfig, /ADMIN_API_KEY must differ from API_KEY/)
+      config.security.adminApiKey = 'short'
+      assert.throws(validateConfig, /ADMIN_API_KEY must be at least 32 characters/)
+    } finally {
+      config.security.adminApiKey = adminApiKey
+    }
+  })
+})
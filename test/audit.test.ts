@@ -0,0 +1,95 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { AuditRecord } from '../src/types'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+import { waitFor } from './helpers'
+
+const BRIDGE_PORT = 15380
+const MOCK_PORT = 15381
+
+const marketOrder = { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }
+
+describe('trading audit records', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 60000 })
+  let bridge: TestBridge
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    config.rateLimit.messageCosts.cancelOrder = 60
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  async function auditOf(requestId: string): Promise<AuditRecord> {
+    await waitFor(() => bridge.supabase.auditRecords.some(record => record.requestId === requestId))
+    return bridge.supabase.auditRecords.find(record => record.requestId === requestId)!
+  }
+
+  it('records executed requests with their outcome', async () => {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    try {
+      const result = await client.request('order', marketOrder, 'orderResult')
+      const record = await auditOf(result.requestId!)
+
+      assert.equal(record.userId, 'user-1')
+      assert.equal(record.accountId, '1001')
+      assert.equal(record.operation, 'order')
+      assert.equal(record.outcome, 'filled')
+      assert.equal(record.positionId, result.payload.positionId)
+      assert.ok(record.clientMsgId)
+    } finally {
+      await client.close()
+    }
+  })
+
+  it('records trading requests rejected before reaching cTrader', async () => {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    try {
+      const invalid = await client.request('order', { ...marketOrder, volume: 0 }, 'error')
+      const invalidRecord = await auditOf(invalid.requestId!)
+      assert.equal(invalidRecord.outcome, 'rejected')
+      assert.equal(invalidRecord.errorCode, 'VALIDATION_FAILED')
+      assert.equal(invalidRecord.accountId, '1001')
+      assert.equal(invalidRecord.clientMsgId, undefined)
+
+      const unknownAccount = await client.request('order', { ...marketOrder, accountId: '2002' }, 'error')
+      const unknownRecord = await auditOf(unknownAccount.requestId!)
+      assert.equal(unknownRecord.errorCode, 'NOT_CONNECTED')
+      assert.equal(unknownRecord.accountId, '2002')
+
+      await client.request('cancelOrder', { orderId: '999' }, 'orderResult')
+      const limited = await client.request('cancelOrder', { orderId: '999' }, 'rateLimited')
+      assert.equal((await auditOf(limited.requestId!)).errorCode, 'RATE_LIMITED')
+
+      const query = await client.request('getPositions', { accountId: '2002' }, 'error')
+      await new Promise(resolve => setTimeout(resolve, 50))
+      assert.ok(bridge.supabase.auditRecords.every(record => record.requestId !== query.requestId))
+    } finally {
+      await client.close()
+    }
+  })
+
+  it('marks duplicate order submissions', async () => {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    try {
+      const order = { ...marketOrder, clientOrderId: 'audit-dup-1' }
+      await client.request('order', order, 'orderResult')
+      const repeat = await client.request('order', order, 'orderResult')
+
+      const record = await auditOf(repeat.requestId!)
+      assert.equal(record.outcome, 'filled')
+      assert.match(record.description!, /Duplicate submission/)
+    } finally {
+      await client.close()
+    }
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { credentialsFor, startBridge, signToken, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15430
+
+describe('token verification', () => {
+  let bridge: TestBridge
+
+  before(async () => {
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+  })
+
+  it('takes the user from the verified token', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    const authenticated = await client.request('authenticate', { token: signToken('user-1') }, 'authenticated')
+    assert.equal(authenticated.payload.userId, 'user-1')
+
+    const mismatch = await client.request('authenticate', { token: signToken('user-2'), userId: 'user-1' }, 'error')
+    assert.equal(mismatch.payload.code, 'INVALID_TOKEN')
+    assert.equal(mismatch.payload.field, 'payload.userId')
+    await client.close()
+  })
+
+  it('rejects forged, expired and foreign tokens', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    const tokens = [
+      signToken('user-1', 3600, {}, 'some-other-secret'),
+      signToken('user-1', -120),
+      signToken('user-1', 3600, { aud: 'anon' }),
+      'not-a-jwt',
+    ]
+
+    for (const token of tokens) {
+      const rejected = await client.request('authenticate', { token }, 'error')
+      assert.equal(rejected.payload.code, 'INVALID_TOKEN')
+      assert.equal(rejected.payload.field, 'payload.token')
+    }
+
+    const unauthenticated = await client.request('connect', { accountId: '1001' }, 'error')
+    assert.equal(unauthenticated.payload.code, 'NOT_AUTHENTICATED')
+    await client.close()
+  })
+
+  it('closes the connection when the token expires', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    await client.request('authenticate', { token: signToken('user-1', 1) }, 'authenticated')
+
+    const closed = await client.closed
+    assert.equal(closed.code, 4001)
+    assert.equal(client.all('error').at(-1)?.payload.code, 'TOKEN_EXPIRED')
+  })
+})
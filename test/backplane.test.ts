@@ -0,0 +1,128 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { Backplane } from '../src/backplane/Backplane'
+import { BackplaneRpc } from '../src/backplane/BackplaneRpc'
+import { InMemoryBackplane, InMemoryHub } from '../src/backplane/InMemoryBackplane'
+import { RedisBackplane } from '../src/backplane/RedisBackplane'
+import { waitFor } from './helpers'
+import { RespStub } from './respStub'
+
+// Set to a disposable Redis, e.g. redis://127.0.0.1:6379/15, to run the same cases against RedisBackplane.
+const REDIS_URL = process.env.BACKPLANE_TEST_REDIS_URL
+
+function backplaneContract(name: string, create: () => Backplane, options: { skip?: string } = {}) {
+  describe(name, { skip: options.skip }, () => {
+    const prefix = `test:${process.pid}:${Date.now()}:`
+    let first: Backplane
+    let second: Backplane
+
+    before(async () => {
+      first = create()
+      second = create()
+      await Promise.all([first.connect(), second.connect()])
+    })
+
+    after(async () => {
+      await Promise.all([first.close(), second.close()])
+    })
+
+    it('delivers messages to other subscribers in publish order', async () => {
+      const received: string[] = []
+      await second.subscribe(`${prefix}events`, message => received.push(message))
+
+      for (const message of ['one', 'two', 'three']) {
+        await first.publish(`${prefix}events`, message)
+      }
+
+      await waitFor(() => received.length === 3)
+      assert.deepEqual(received, ['one', 'two', 'three'])
+    })
+
+    it('stops delivering after unsubscribe', async () => {
+      const received: string[] = []
+      await second.subscribe(`${prefix}muted`, message => received.push(message))
+      await second.unsubscribe(`${prefix}muted`)
+
+      await first.publish(`${prefix}muted`, 'ignored')
+      await new Promise(resolve => setTimeout(resolve, 50))
+      assert.deepEqual(received, [])
+    })
+
+    it('grants a key to one owner until it is released or expires', async () => {
+      const key = `${prefix}owner`
+
+      assert.equal(await first.claim(key, 'a', 200), 'a')
+      assert.equal(await second.claim(key, 'b', 200), 'a')
+      assert.equal(await second.holder(key), 'a')
+
+      await second.release(key, 'b')
+      assert.equal(await first.holder(key), 'a')
+
+      await first.release(key, 'a')
+      assert.equal(await second.claim(key, 'b', 100), 'b')
+
+      await new Promise(resolve => setTimeout(resolve, 150))
+      assert.equal(await first.holder(key), null)
+    })
+
+    it('routes RPC replies and errors back to the caller', async () => {
+      const caller = new BackplaneRpc(first, `${prefix}caller`)
+      const server = new BackplaneRpc(second, `${prefix}server`)
+      const notified: unknown[][] = []
+
+      await caller.start()
+      await server.serve(`${prefix}service`, (method, args) => {
+        if (method === 'fail') throw new Error('Nope')
+        if (method === 'note') notified.push(args)
+        return { method, args }
+      })
+
+      assert.deepEqual(await caller.call(`${prefix}service`, 'echo', [1, 'two']), { method: 'echo', args: [1, 'two'] })
+      await assert.rejects(caller.call(`${prefix}service`, 'fail'), /Nope/)
+
+      await caller.notify(`${prefix}service`, 'note', ['hello'])
+      await waitFor(() => notified.length === 1)
+      assert.deepEqual(notified, [['hello']])
+
+      await caller.stop()
+      await second.unsubscribe(`${prefix}service`)
+    })
+  })
+}
+
+const hub = new InMemoryHub()
+backplaneContract('InMemoryBackplane', () => new InMemoryBackplane(hub))
+
+const stub = new RespStub()
+before(() => stub.start())
+after(() => stub.stop())
+
+backplaneContract('RedisBackplane against a RESP stub', () => new RedisBackplane(stub.url))
+
+backplaneContract('RedisBackplane', () => new RedisBackplane(REDIS_URL), {
+  skip: REDIS_URL ? undefined : 'BACKPLANE_TEST_REDIS_URL is not set',
+})
+
+describe('RedisBackplane connection recovery', () => {
+  it('fails pending commands on a malformed reply and reconnects', async () => {
+    config.connection.reconnectIntervalMs = 50
+    const backplane = new RedisBackplane(stub.url)
+    await backplane.connect()
+
+    try {
+      const received: string[] = []
+      await backplane.subscribe('recovery', message => received.push(message))
+
+      const pending = backplane.holder('recovery:owner')
+      stub.broadcastRaw('!garbage\r\n')
+      await assert.rejects(pending, /Unexpected Redis reply type: !/)
+
+      await new Promise(resolve => setTimeout(resolve, 200))
+      await backplane.publish('recovery', 'back')
+      await waitFor(() => received.includes('back'))
+    } finally {
+      await backplane.close()
+    }
+  })
+})
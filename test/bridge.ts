@@ -0,0 +1,176 @@
+import WebSocket from 'ws'
+import { createHmac } from 'crypto'
+import { encode, decode } from '@msgpack/msgpack'
+import { config } from '../src/config'
+import { Backplane } from '../src/backplane/Backplane'
+import { SupabaseClient } from '../src/supabase/SupabaseClient'
+import { WebSocketServer } from '../src/websocket/WebSocketServer'
+import { AuditRecord, RiskLimits, ServerMessage, ServerMessageType, UserCredentials } from '../src/types'
+import { waitFor } from './helpers'
+
+export const JWT_SECRET = 'test-jwt-secret'
+
+/** Signs an HS256 user token; `claims` overrides the defaults and `secret` forges one the bridge will not accept. */
+export function signToken(userId: string, expiresInSec = 3600, claims: object = {}, secret = JWT_SECRET): string {
+  const encodeSegment = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+  const header = encodeSegment({ alg: 'HS256', typ: 'JWT' })
+  const body = encodeSegment({ sub: userId, aud: 'authenticated', exp: Math.floor(Date.now() / 1000) + expiresInSec, ...claims })
+  const signature = createHmac('sha256', secret).update(`${header}.${body}`).digest('base64url')
+  return `${header}.${body}.${signature}`
+}
+
+export function credentialsFor(userId: string): UserCredentials {
+  return {
+    userId,
+    accessToken: 'access-token',
+    clientId: 'client-id',
+    clientSecret: 'client-secret',
+    tokenExpiresAt: new Date(Date.now() + 3600000),
+  }
+}
+
+/** Stands in for the Supabase tables the bridge reads and writes. */
+export class FakeSupabase {
+  credentials: Map<string, UserCredentials> = new Map()
+  riskLimits: Map<string, Partial<RiskLimits>> = new Map()
+  auditRecords: AuditRecord[] = []
+  connectionStatus: Map<string, boolean> = new Map()
+
+  async getUserCredentials(userId: string): Promise<UserCredentials | null> {
+    return this.credentials.get(userId) ?? null
+  }
+
+  async refreshAccessToken(): Promise<null> {
+    return null
+  }
+
+  async updateAccountInfo(): Promise<void> {}
+
+  async setConnectionStatus(userId: string, isConnected: boolean): Promise<void> {
+    this.connectionStatus.set(userId, isConnected)
+  }
+
+  async getRiskLimits(userId: string): Promise<Partial<RiskLimits> | null> {
+    return this.riskLimits.get(userId) ?? null
+  }
+
+  async insertAuditRecord(record: AuditRecord): Promise<void> {
+    this.auditRecords.push(record)
+  }
+
+  async getAuditRecords(userId: string, limit: number): Promise<AuditRecord[]> {
+    return this.auditRecords.filter(record => record.userId === userId).slice(0, limit)
+  }
+
+  asClient(): SupabaseClient {
+    return this as unknown as SupabaseClient
+  }
+}
+
+export interface TestBridge {
+  server: WebSocketServer
+  supabase: FakeSupabase
+  port: number
+}
+
+export async function startBridge(port: number, options: { backplane?: Backplane; supabase?: FakeSupabase } = {}): Promise<TestBridge> {
+  config.server.port = port
+  config.supabase.jwtSecret = JWT_SECRET
+
+  const supabase = options.supabase || new FakeSupabase()
+  const server = new WebSocketServer({ supabaseClient: supabase.asClient(), backplane: options.backplane })
+  await server.initialize()
+  await server.start()
+  return { server, supabase, port }
+}
+
+export interface TestClientOptions {
+  protocols?: string[]
+  headers?: Record<string, string>
+  /** Sends the API key in the x-api-key header unless protocols or headers already carry it. */
+  apiKey?: string | null
+}
+
+export type MessageOf<T extends ServerMessageType> = Extract<ServerMessage, { type: T }>
+
+let requestCounter = 0
+
+/** A real ws client that records every message the bridge sends it. */
+export class TestClient {
+  readonly ws: WebSocket
+  readonly messages: ServerMessage[] = []
+  readonly closed: Promise<{ code: number; reason: string }>
+
+  private constructor(ws: WebSocket) {
+    this.ws = ws
+    this.ws.on('message', (data: Buffer, isBinary: boolean) => {
+      this.messages.push(isBinary ? decode(data) as ServerMessage : JSON.parse(data.toString()))
+    })
+    this.closed = new Promise(resolve => {
+      this.ws.on('close', (code: number, reason: Buffer) => resolve({ code, reason: reason.toString() }))
+    })
+  }
+
+  static open(port: number, options: TestClientOptions = {}): Promise<TestClient> {
+    const apiKey = options.apiKey === undefined ? config.security.apiKey : options.apiKey
+    const headers = { ...(apiKey ? { 'x-api-key': apiKey } : {}), ...options.headers }
+    const ws = new WebSocket(`ws://127.0.0.1:${port}`, options.protocols || [], { headers })
+    const client = new TestClient(ws)
+
+    return new Promise((resolve, reject) => {
+      ws.once('unexpected-response', (_req, res) => reject(new Error(`Handshake rejected with ${res.statusCode}`)))
+      ws.once('error', reject)
+      ws.once('open', () => {
+        client.next('connected').then(() => resolve(client), reject)
+      })
+    })
+  }
+
+  /** Opens a connection, authenticates as `userId` and optionally connects the given accounts. */
+  static async session(port: number, userId: string, accountIds: string[] = [], options: TestClientOptions = {}): Promise<TestClient> {
+    const client = await TestClient.open(port, options)
+    await client.request('authenticate', { token: signToken(userId) }, 'authenticated')
+    for (const accountId of accountIds) {
+      await client.request('connect', { accountId }, 'accountUpdate')
+    }
+    return client
+  }
+
+  send(message: object): void {
+    this.ws.send(this.ws.protocol === 'mahspeccy.msgpack' ? encode(message) : JSON.stringify(message))
+  }
+
+  /** Sends a message with a fresh requestId and resolves with the reply of the expected type, failing on an error reply. */
+  async request<T extends ServerMessageType>(type: string, payload: object, expected: T, timeoutMs?: number): Promise<MessageOf<T>> {
+    const requestId = `req-${++requestCounter}`
+    this.send({ type, payload, requestId })
+
+    const isReply = (message: ServerMessage) =>
+      message.requestId === requestId && (message.type === expected || message.type === 'error')
+    await waitFor(() => this.messages.some(isReply), timeoutMs)
+
+    const reply = this.messages.find(isReply)!
+    if (reply.type !== expected) {
+      throw new Error(`Expected ${expected} for ${type}, got ${JSON.stringify(reply.payload)}`)
+    }
+    return reply as MessageOf<T>
+  }
+
+  async next<T extends ServerMessageType>(
+    type: T,
+    match: (message: MessageOf<T>) => boolean = () => true,
+    timeoutMs?: number
+  ): Promise<MessageOf<T>> {
+    await waitFor(() => this.all(type).some(match), timeoutMs)
+    return this.all(type).find(match)!
+  }
+
+  all<T extends ServerMessageType>(type: T): MessageOf<T>[] {
+    return this.messages.filter((message): message is MessageOf<T> => message.type === type)
+  }
+
+  close(): Promise<{ code: number; reason: string }> {
+    this.ws.close()
+    return this.closed
+  }
+}
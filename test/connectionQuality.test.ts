@@ -0,0 +1,57 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15450
+const MOCK_PORT = 15451
+
+describe('connection quality telemetry', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 10 })
+  let bridge: TestBridge
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 5000
+    config.connection.qualityReportIntervalMs = 200
+    config.outbound.maxSpotUpdatesPerSecond = 2
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  it('reports round-trip time, conflation and reconnects to the client and the metrics route', async () => {
+    const dropped = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    const { resumeToken } = (await dropped.next('authenticated')).payload
+    await dropped.request('subscribe', { symbolIds: [1, 2] }, 'subscribed')
+
+    // Client pings go out with the 30 second health check; take a sample now.
+    bridge.server['performHealthCheck']()
+    const report = await dropped.next(
+      'connectionQuality',
+      message => message.payload.rttMs !== undefined && message.payload.conflatedMessages > 0
+    )
+    assert.ok(report.payload.rttMs! >= 0)
+    assert.equal(report.payload.reconnects, 0)
+
+    dropped.ws.terminate()
+    await dropped.closed
+    const resumed = await TestClient.open(BRIDGE_PORT)
+    await resumed.request('resume', { resumeToken }, 'resumed')
+    const afterResume = await resumed.next('connectionQuality')
+    assert.equal(afterResume.payload.reconnects, 1)
+    assert.ok(afterResume.payload.conflatedMessages >= report.payload.conflatedMessages)
+    await resumed.close()
+
+    const exposition = await (await fetch(`http://127.0.0.1:${BRIDGE_PORT}/metrics`)).text()
+    assert.match(exposition, /^bridge_client_rtt_seconds_count\S* [1-9]/m)
+    assert.match(exposition, /^bridge_conflated_spot_events_total\S* [1-9]/m)
+    assert.match(exposition, /^bridge_client_outbound_queue_depth\S* \d+/m)
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15420
+const MOCK_PORT = 15421
+
+describe('graceful drain', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 60000 })
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    config.server.shutdownReconnectDelayMs = 250
+    await mock.start(MOCK_PORT)
+  })
+
+  after(async () => {
+    await mock.stop()
+  })
+
+  it('lets in-flight orders finish before closing clients', async () => {
+    config.server.shutdownDrainTimeoutMs = 5000
+    const bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+
+    mock.setDelay('PROTO_OA_NEW_ORDER_REQ', 300)
+    try {
+      client.send({ type: 'order', payload: { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }, requestId: 'in-flight' })
+      await new Promise(resolve => setTimeout(resolve, 50))
+      const stopped = bridge.server.stop()
+
+      const shutdown = await client.next('serverShutdown')
+      assert.equal(shutdown.payload.reconnectAfterMs, 250)
+
+      const rejected = await client.request('order', { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }, 'error')
+      assert.equal(rejected.payload.code, 'SERVER_SHUTTING_DOWN')
+      await assert.rejects(TestClient.open(BRIDGE_PORT))
+
+      const result = await client.next('orderResult', message => message.requestId === 'in-flight')
+      assert.equal(result.payload.status, 'filled')
+
+      assert.equal((await client.closed).code, 1012)
+      await stopped
+    } finally {
+      mock.setDelay('PROTO_OA_NEW_ORDER_REQ', null)
+    }
+  })
+
+  it('closes clients once the drain timeout passes', async () => {
+    config.server.shutdownDrainTimeoutMs = 200
+    const bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+
+    mock.setDelay('PROTO_OA_NEW_ORDER_REQ', 2000)
+    try {
+      client.send({ type: 'order', payload: { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }, requestId: 'stuck' })
+      await new Promise(resolve => setTimeout(resolve, 50))
+
+      const startedAt = Date.now()
+      await bridge.server.stop()
+      assert.ok(Date.now() - startedAt < 1500)
+      assert.equal((await client.closed).code, 1012)
+      assert.equal(client.all('orderResult').length, 0)
+    } finally {
+      mock.setDelay('PROTO_OA_NEW_ORDER_REQ', null)
+    }
+  })
+})
@@ -0,0 +1,58 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { encode } from '@msgpack/msgpack'
+import { startBridge, TestBridge, TestClient } from './bridge'
+import { waitFor } from './helpers'
+
+const BRIDGE_PORT = 15400
+
+describe('message encoding negotiation', () => {
+  let bridge: TestBridge
+
+  before(async () => {
+    bridge = await startBridge(BRIDGE_PORT)
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+  })
+
+  async function framesOf(client: TestClient, send: () => void): Promise<boolean[]> {
+    const frames: boolean[] = []
+    client.ws.on('message', (_data, isBinary) => frames.push(isBinary))
+    send()
+    await waitFor(() => frames.length > 0)
+    return frames
+  }
+
+  it('keeps JSON text frames by default', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    assert.equal(client.ws.protocol, '')
+
+    assert.deepEqual(await framesOf(client, () => client.send({ type: 'ping', requestId: 'json-1' })), [false])
+    await client.next('pong', message => message.requestId === 'json-1')
+    await client.close()
+  })
+
+  it('speaks MessagePack in binary frames when the client offers it', async () => {
+    const client = await TestClient.open(BRIDGE_PORT, { protocols: ['mahspeccy.msgpack', 'mahspeccy.json'] })
+    assert.equal(client.ws.protocol, 'mahspeccy.msgpack')
+
+    assert.deepEqual(await framesOf(client, () => client.ws.send(encode({ type: 'ping', requestId: 'pack-1' }))), [true])
+    await client.next('pong', message => message.requestId === 'pack-1')
+
+    client.ws.send(JSON.stringify({ type: 'ping', requestId: 'text-1' }))
+    await client.next('pong', message => message.requestId === 'text-1')
+
+    client.ws.send(Buffer.from([0xc1]))
+    const invalid = await client.next('error', message => message.payload.code === 'INVALID_MESSAGE')
+    assert.equal(invalid.payload.message, 'Message is not valid MessagePack or JSON')
+    await client.close()
+  })
+
+  it('negotiates permessage-deflate', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    assert.match(client.ws.extensions, /permessage-deflate/)
+    await client.close()
+  })
+})
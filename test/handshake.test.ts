@@ -0,0 +1,77 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { IncomingMessage } from 'http'
+import { config } from '../src/config'
+import { remoteAddress } from '../src/websocket/handshake'
+import { selectSubprotocol } from '../src/websocket/codec'
+import { startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15370
+
+function requestFrom(peer: string, forwardedFor?: string): IncomingMessage {
+  return {
+    socket: { remoteAddress: peer },
+    headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+  } as unknown as IncomingMessage
+}
+
+describe('remoteAddress', () => {
+  it('ignores x-forwarded-for unless the peer is a trusted proxy', () => {
+    config.security.trustedProxies = []
+    assert.equal(remoteAddress(requestFrom('203.0.113.7', '198.51.100.1')), '203.0.113.7')
+
+    config.security.trustedProxies = ['10.0.0.2']
+    assert.equal(remoteAddress(requestFrom('203.0.113.7', '198.51.100.1')), '203.0.113.7')
+    assert.equal(remoteAddress(requestFrom('::ffff:10.0.0.2', '198.51.100.1')), '198.51.100.1')
+    assert.equal(remoteAddress(requestFrom('10.0.0.2')), '10.0.0.2')
+  })
+
+  it('skips a forged client-supplied hop', () => {
+    config.security.trustedProxies = ['10.0.0.2', '10.0.0.3']
+    assert.equal(remoteAddress(requestFrom('10.0.0.2', '1.1.1.1, 198.51.100.1, 10.0.0.3')), '198.51.100.1')
+  })
+})
+
+describe('selectSubprotocol', () => {
+  it('never echoes the API key protocol', () => {
+    assert.equal(selectSubprotocol(new Set([`mahspeccy.key.${config.security.apiKey}`])), false)
+    assert.equal(selectSubprotocol(new Set([`mahspeccy.key.${config.security.apiKey}`, 'mahspeccy.json'])), 'mahspeccy.json')
+  })
+})
+
+describe('handshake checks', () => {
+  let bridge: TestBridge
+
+  before(async () => {
+    config.security.allowedOrigins = ['https://app.example.com']
+    bridge = await startBridge(BRIDGE_PORT)
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+  })
+
+  it('rejects origins outside the allowed list', async () => {
+    await assert.rejects(
+      TestClient.open(BRIDGE_PORT, { headers: { origin: 'https://evil.example.com' } }),
+      /Handshake rejected with 403/
+    )
+
+    const client = await TestClient.open(BRIDGE_PORT, { headers: { origin: 'https://app.example.com' } })
+    await client.close()
+  })
+
+  it('requires the API key', async () => {
+    await assert.rejects(TestClient.open(BRIDGE_PORT, { apiKey: null }), /Handshake rejected with 401/)
+    await assert.rejects(TestClient.open(BRIDGE_PORT, { apiKey: 'wrong-key' }), /Handshake rejected with 401/)
+  })
+
+  it('accepts the key as a subprotocol without sending it back', async () => {
+    const keyProtocol = `mahspeccy.key.${config.security.apiKey}`
+    const client = await TestClient.open(BRIDGE_PORT, { apiKey: null, protocols: ['mahspeccy.json', keyProtocol] })
+    assert.equal(client.ws.protocol, 'mahspeccy.json')
+    await client.close()
+
+    await assert.rejects(TestClient.open(BRIDGE_PORT, { apiKey: null, protocols: [keyProtocol] }))
+  })
+})
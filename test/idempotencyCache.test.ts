@@ -0,0 +1,56 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { IdempotencyCache } from '../src/websocket/IdempotencyCache'
+
+class NotSentError extends Error {}
+
+describe('IdempotencyCache', () => {
+  const cacheFor = (windowMs = 60000) => new IdempotencyCache<string>(windowMs, error => error instanceof NotSentError)
+
+  it('answers repeats inside the window with the first outcome', async () => {
+    const cache = cacheFor()
+    let calls = 0
+    const execute = async () => `result-${++calls}`
+
+    const first = cache.run('key', execute)
+    const repeat = cache.run('key', execute)
+    assert.equal(first.duplicate, false)
+    assert.equal(repeat.duplicate, true)
+    assert.equal(await repeat.result, 'result-1')
+    assert.equal(await cache.run('other', execute).result, 'result-2')
+    assert.equal(calls, 2)
+  })
+
+  it('runs the key again once the window has passed', async () => {
+    const cache = cacheFor(0)
+    await cache.run('key', async () => 'first').result
+
+    const repeat = cache.run('key', async () => 'second')
+    assert.equal(repeat.duplicate, false)
+    assert.equal(await repeat.result, 'second')
+  })
+
+  it('forgets failures raised before anything was sent', async () => {
+    const cache = cacheFor()
+    const rejected = cache.run('key', async () => {
+      throw new NotSentError('rejected by risk checks')
+    })
+    await assert.rejects(rejected.result)
+
+    const retry = cache.run('key', async () => 'placed')
+    assert.equal(retry.duplicate, false)
+    assert.equal(await retry.result, 'placed')
+  })
+
+  it('keeps failures whose order may have been placed', async () => {
+    const cache = cacheFor()
+    const lost = cache.run('key', async () => {
+      throw new Error('Connection to cTrader lost')
+    })
+    await assert.rejects(lost.result)
+
+    const retry = cache.run('key', async () => 'placed twice')
+    assert.equal(retry.duplicate, true)
+    await assert.rejects(retry.result, /Connection to cTrader lost/)
+  })
+})
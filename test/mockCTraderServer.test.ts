@@ -0,0 +1,137 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { connect } from 'net'
+import { config } from '../src/config'
+import { MessageHandler } from '../src/ctrader/MessageHandler'
+import { CTraderRequestError, ProtoOAClient } from '../src/ctrader/ProtoOAClient'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { UserCredentials } from '../src/types'
+import { waitFor } from './helpers'
+
+const MOCK_PORT = 15235
+const MOCK_TCP_PORT = 15236
+
+const marketOrder = { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }
+
+const credentials: UserCredentials = {
+  userId: 'user-1',
+  accessToken: 'access-token',
+  clientId: 'client-id',
+  clientSecret: 'client-secret',
+  tokenExpiresAt: new Date(Date.now() + 3600000),
+}
+
+describe('ProtoOAClient against MockCTraderServer', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 50 })
+  const messageHandler = new MessageHandler()
+  let client: ProtoOAClient
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    await messageHandler.initialize()
+    await mock.start(MOCK_PORT, MOCK_TCP_PORT)
+  })
+
+  after(async () => {
+    await mock.stop()
+  })
+
+  beforeEach(async () => {
+    mock.reset()
+    client = new ProtoOAClient(messageHandler, credentials, '1001')
+    await client.connect()
+    await waitFor(() => client.isAuthenticated())
+  })
+
+  afterEach(() => {
+    client.disconnect()
+  })
+
+  it('fills a market order and reports the position on reconcile', async () => {
+    const result = await client.sendOrder({ ...marketOrder, comment: 'test', clientOrderId: 'order-1' })
+    assert.equal(result.status, 'filled')
+
+    const { positions } = await client.reconcile()
+    assert.equal(positions.length, 1)
+    assert.equal(positions[0].positionId, result.positionId)
+    assert.equal(positions[0].side, 'buy')
+    assert.equal(positions[0].entryPrice, result.event?.order?.executionPrice)
+    assert.equal(positions[0].profit, undefined)
+
+    const closed = await client.closePosition(result.positionId!, 100000)
+    assert.equal(closed.status, 'filled')
+    assert.deepEqual((await client.reconcile()).positions, [])
+  })
+
+  it('returns scripted errors as rejected orders', async () => {
+    mock.setError('PROTO_OA_NEW_ORDER_REQ', { errorCode: 'MARKET_CLOSED', description: 'Market is closed' })
+    try {
+      const result = await client.sendOrder(marketOrder)
+      assert.equal(result.status, 'rejected')
+      assert.equal(result.errorCode, 'MARKET_CLOSED')
+    } finally {
+      mock.setError('PROTO_OA_NEW_ORDER_REQ', null)
+    }
+  })
+
+  it('streams spot ticks for subscribed symbols', async () => {
+    const symbolIds: string[] = []
+    client.on('spotEvent', event => symbolIds.push(event.symbolId))
+
+    client.subscribeSpots([2])
+    await waitFor(() => symbolIds.length >= 2)
+    assert.ok(symbolIds.every(symbolId => symbolId === '2'))
+  })
+
+  it('resolves request() with responses the client also handles itself', async () => {
+    const subscribed = await client.request('PROTO_OA_SUBSCRIBE_SPOTS_REQ', { ctidTraderAccountId: 1001, symbolId: [1] })
+    assert.equal(subscribed.type, 'PROTO_OA_SUBSCRIBE_SPOTS_RES')
+
+    const unsubscribed = await client.request('PROTO_OA_UNSUBSCRIBE_SPOTS_REQ', { ctidTraderAccountId: 1001, symbolId: [1] })
+    assert.equal(unsubscribed.type, 'PROTO_OA_UNSUBSCRIBE_SPOTS_RES')
+
+    const version = await client.request('PROTO_OA_VERSION_REQ')
+    assert.deepEqual(version, { type: 'PROTO_OA_VERSION_RES', payload: { version: '100' } })
+
+    const trader = await client.request('PROTO_OA_TRADER_REQ', { ctidTraderAccountId: 1001 })
+    assert.equal(trader.type, 'PROTO_OA_TRADER_RES')
+
+    const symbols = await client.request('PROTO_OA_SYMBOLS_LIST_REQ', { ctidTraderAccountId: 1001 })
+    assert.equal(symbols.type, 'PROTO_OA_SYMBOLS_LIST_RES')
+    assert.equal(client.isAuthenticated(), true)
+  })
+
+  it('rejects request() with CTraderRequestError on error responses', async () => {
+    await assert.rejects(client.request('PROTO_OA_TRADER_REQ', { ctidTraderAccountId: 9999 }), (error: unknown) => {
+      assert.ok(error instanceof CTraderRequestError)
+      assert.equal(error.errorCode, 'ACCOUNT_NOT_AUTHORIZED')
+      return true
+    })
+  })
+
+  it('reports dropped connections to the client', async () => {
+    let disconnected = false
+    client.on('disconnected', () => {
+      disconnected = true
+    })
+
+    mock.dropConnections()
+    await waitFor(() => disconnected)
+    assert.equal(client.isConnected(), false)
+  })
+
+  it('answers length-prefixed frames over plain TCP', async () => {
+    const socket = connect(MOCK_TCP_PORT, '127.0.0.1')
+    const reply = new Promise<Buffer>((resolve, reject) => {
+      socket.once('data', resolve)
+      socket.once('error', reject)
+    })
+
+    socket.write(messageHandler.createVersionRequest())
+    const decoded = messageHandler.decodeMessage(await reply)
+    socket.destroy()
+
+    assert.equal(decoded?.type, 'PROTO_OA_VERSION_RES')
+    assert.equal(decoded?.payload.version, '100')
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { DEFAULT_SCENARIO, MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15440
+const MOCK_PORT = 15441
+
+const marketOrder = { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }
+
+describe('multiple accounts on one connection', () => {
+  const mock = new MockCTraderServer({
+    tickIntervalMs: 50,
+    accounts: [...DEFAULT_SCENARIO.accounts, { ...DEFAULT_SCENARIO.accounts[0], ctidTraderAccountId: 1002, traderLogin: 5001002 }],
+  })
+  let bridge: TestBridge
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    config.connection.maxAccountsPerClient = 2
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  it('routes requests and events by accountId', async () => {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001', '1002'])
+    try {
+      const ambiguous = await client.request('order', marketOrder, 'error')
+      assert.equal(ambiguous.payload.code, 'VALIDATION_FAILED')
+      assert.equal(ambiguous.payload.field, 'payload.accountId')
+
+      const filled = await client.request('order', { ...marketOrder, accountId: '1002' }, 'orderResult')
+      assert.equal(filled.accountId, '1002')
+      assert.ok(client.all('executionEvent').some(event => event.requestId === filled.requestId && event.accountId === '1002'))
+      assert.equal((await client.request('getPositions', { accountId: '1002' }, 'positionUpdate')).payload.length, 1)
+      assert.equal((await client.request('getPositions', { accountId: '1001' }, 'positionUpdate')).payload.length, 0)
+
+      await client.request('subscribe', { accountId: '1001', symbolIds: [2] }, 'subscribed')
+      const spot = await client.next('spotEvent')
+      assert.equal(spot.accountId, '1001')
+      assert.equal(spot.payload.symbolId, '2')
+
+      const tooMany = await client.request('connect', { accountId: '1003' }, 'error')
+      assert.equal(tooMany.payload.code, 'TOO_MANY_ACCOUNTS')
+
+      await client.request('disconnect', { accountId: '1001' }, 'disconnected')
+      const detached = await client.request('order', { ...marketOrder, accountId: '1001' }, 'error')
+      assert.equal(detached.payload.code, 'NOT_CONNECTED')
+      assert.equal((await client.request('order', marketOrder, 'orderResult')).accountId, '1002')
+    } finally {
+      await client.close()
+    }
+  })
+})
@@ -0,0 +1,144 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15320
+const MOCK_PORT = 15321
+
+const marketOrder = { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }
+
+describe('trading requests', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 60000 })
+  let bridge: TestBridge
+  let client: TestClient
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  beforeEach(async () => {
+    mock.reset()
+    client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('tags the execution events and result of an order with its requestId', async () => {
+    const result = await client.request('order', marketOrder, 'orderResult')
+    assert.equal(result.payload.status, 'filled')
+    assert.equal(result.accountId, '1001')
+
+    const events = client.all('executionEvent').filter(event => event.requestId === result.requestId)
+    assert.ok(events.length > 0)
+
+    const closed = await client.request('closePosition', { positionId: result.payload.positionId, volume: 100000 }, 'orderResult')
+    assert.equal(closed.payload.status, 'filled')
+    assert.equal(closed.payload.positionId, result.payload.positionId)
+  })
+
+  it('places limit orders at the requested price', async () => {
+    const limitOrder = { symbolId: 1, orderType: 2, tradeSide: 1, volume: 100000, limitPrice: 1.05 }
+    const result = await client.request('order', limitOrder, 'orderResult')
+    assert.equal(result.payload.status, 'accepted')
+
+    const orders = (await client.request('getOrders', {}, 'orderUpdate')).payload
+    assert.equal(orders.length, 1)
+    assert.equal(orders[0].orderId, result.payload.orderId)
+    assert.equal(orders[0].limitPrice, 1.05)
+  })
+
+  it('amends position stops and manages pending orders', async () => {
+    const filled = await client.request('order', marketOrder, 'orderResult')
+    const { positionId } = filled.payload
+    const amended = await client.request('amendPosition', { positionId, stopLoss: 1.0, takeProfit: 1.5 }, 'orderResult')
+    assert.equal(amended.payload.status, 'amended')
+    const [position] = (await client.request('getPositions', {}, 'positionUpdate')).payload
+    assert.equal(position.stopLoss, 1.0)
+    assert.equal(position.takeProfit, 1.5)
+
+    const limitOrder = { symbolId: 1, orderType: 2, tradeSide: 1, volume: 100000, limitPrice: 1.05 }
+    const { orderId } = (await client.request('order', limitOrder, 'orderResult')).payload
+    const replaced = await client.request('amendOrder', { orderId, volume: 200000, limitPrice: 1.04 }, 'orderResult')
+    assert.equal(replaced.payload.status, 'amended')
+    const [order] = (await client.request('getOrders', {}, 'orderUpdate')).payload
+    assert.equal(order.volume, 200000)
+    assert.equal(order.limitPrice, 1.04)
+
+    const cancelled = await client.request('cancelOrder', { orderId }, 'orderResult')
+    assert.equal(cancelled.payload.status, 'cancelled')
+    assert.deepEqual((await client.request('getOrders', {}, 'orderUpdate')).payload, [])
+
+    const missing = await client.request('cancelOrder', { orderId }, 'orderResult')
+    assert.equal(missing.payload.status, 'rejected')
+    assert.equal(missing.payload.errorCode, 'ORDER_NOT_FOUND')
+  })
+
+  it('answers a repeated clientOrderId with the original outcome', async () => {
+    const order = { ...marketOrder, clientOrderId: 'retry-1' }
+    const first = await client.request('order', order, 'orderResult')
+    const repeat = await client.request('order', order, 'orderResult')
+
+    assert.equal(first.payload.duplicate, undefined)
+    assert.equal(repeat.payload.duplicate, true)
+    assert.equal(repeat.payload.positionId, first.payload.positionId)
+    assert.equal((await client.request('getPositions', {}, 'positionUpdate')).payload.length, 1)
+  })
+
+  it('holds orders and amendments to the risk limits', async () => {
+    bridge.supabase.credentials.set('user-2', credentialsFor('user-2'))
+    bridge.supabase.riskLimits.set('user-2', { maxOrderVolume: 200000, requireStopLoss: true })
+    const limited = await TestClient.session(BRIDGE_PORT, 'user-2', ['1001'])
+
+    try {
+      const unprotected = await limited.request('order', marketOrder, 'riskRejected')
+      assert.deepEqual(unprotected.payload.violations.map(violation => violation.rule), ['stopLossRequired'])
+
+      const filled = await limited.request('order', { ...marketOrder, relativeStopLoss: 1000 }, 'orderResult')
+      assert.equal(filled.payload.status, 'filled')
+      const [position] = (await limited.request('getPositions', {}, 'positionUpdate')).payload
+      assert.ok(Math.abs(position.stopLoss! - (position.entryPrice - 0.01)) < 1e-9)
+
+      const removal = await limited.request('amendPosition', { positionId: position.positionId, takeProfit: 1.5 }, 'riskRejected')
+      assert.deepEqual(removal.payload.violations.map(violation => violation.rule), ['stopLossRequired'])
+
+      const pending = await limited.request(
+        'order',
+        { ...marketOrder, orderType: 2, limitPrice: 1.05, stopLoss: 1.04 },
+        'orderResult'
+      )
+      const enlarged = await limited.request(
+        'amendOrder',
+        { orderId: pending.payload.orderId, volume: 300000, stopLoss: 1.04 },
+        'riskRejected'
+      )
+      assert.deepEqual(enlarged.payload.violations.map(violation => violation.rule), ['maxOrderVolume'])
+    } finally {
+      await limited.close()
+    }
+  })
+
+  it('returns upstream rejections as a rejected result for the request', async () => {
+    mock.setError('PROTO_OA_NEW_ORDER_REQ', { errorCode: 'MARKET_CLOSED', description: 'Market is closed' })
+    try {
+      const result = await client.request('order', marketOrder, 'orderResult')
+      assert.equal(result.payload.status, 'rejected')
+      assert.equal(result.payload.errorCode, 'MARKET_CLOSED')
+      assert.deepEqual(client.all('error'), [])
+    } finally {
+      mock.setError('PROTO_OA_NEW_ORDER_REQ', null)
+    }
+  })
+})
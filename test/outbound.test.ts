@@ -0,0 +1,67 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15410
+const MOCK_PORT = 15411
+
+describe('outbound flow control', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 10 })
+  let bridge: TestBridge
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    config.outbound.maxSpotUpdatesPerSecond = 4
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  it('conflates spots to the latest tick per symbol at the configured rate', async () => {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    try {
+      await client.request('subscribe', { symbolIds: [1, 2] }, 'subscribed')
+      const startedAt = Date.now()
+      await new Promise(resolve => setTimeout(resolve, 1000))
+
+      const elapsedSec = (Date.now() - startedAt) / 1000
+      for (const symbolId of ['1', '2']) {
+        const spots = client.all('spotEvent').filter(message => message.payload.symbolId === symbolId).length
+        assert.ok(spots >= 1, `no spots for symbol ${symbolId}`)
+        assert.ok(spots <= Math.ceil(elapsedSec * 4) + 1, `${spots} spots for symbol ${symbolId} in ${elapsedSec}s`)
+      }
+
+      const order = await client.request('order', { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }, 'orderResult')
+      assert.equal(order.payload.status, 'filled')
+    } finally {
+      await client.close()
+    }
+  })
+
+  it('disconnects a client that stays over the buffer limit', async () => {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    const { maxBufferedBytes, slowConsumerTimeoutMs } = config.outbound
+    // No socket buffers enough on loopback to back up, so count every queued byte as over the limit.
+    config.outbound.maxBufferedBytes = -1
+    config.outbound.slowConsumerTimeoutMs = 100
+
+    try {
+      client.send({ type: 'subscribe', payload: { symbolIds: [1] } })
+      const startedAt = Date.now()
+      const closed = await client.closed
+
+      assert.equal(closed.code, 1006)
+      assert.ok(Date.now() - startedAt >= 90)
+    } finally {
+      Object.assign(config.outbound, { maxBufferedBytes, slowConsumerTimeoutMs })
+    }
+  })
+})
@@ -0,0 +1,65 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { RateLimiter } from '../src/websocket/RateLimiter'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15350
+
+describe('RateLimiter', () => {
+  it('charges each call its cost and reports when enough tokens return', () => {
+    const limiter = new RateLimiter(10, 1000)
+
+    assert.equal(limiter.retryAfter('a', 6), 0)
+    limiter.consume('a', 6)
+    assert.equal(limiter.retryAfter('a', 4), 0)
+    limiter.consume('a', 4)
+
+    const retryAfterMs = limiter.retryAfter('a', 5)
+    assert.ok(retryAfterMs > 400 && retryAfterMs <= 500)
+    assert.equal(limiter.retryAfter('b', 5), 0)
+  })
+
+  it('never admits a call costing more than the capacity', () => {
+    assert.equal(new RateLimiter(10, 1000).retryAfter('a', 11), Infinity)
+  })
+})
+
+describe('message rate limits', () => {
+  let bridge: TestBridge
+
+  before(async () => {
+    config.rateLimit.messageRateLimit = 40
+    config.rateLimit.userMessageRateLimit = 30
+    config.rateLimit.messageCosts.ping = 5
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+  })
+
+  it('answers rateLimited once a connection or its user runs out of tokens', async () => {
+    const anonymous = await TestClient.open(BRIDGE_PORT)
+    for (let i = 0; i < 8; i++) {
+      await anonymous.request('ping', {}, 'pong')
+    }
+    const limited = await anonymous.request('ping', {}, 'rateLimited')
+    assert.equal(limited.payload.scope, 'connection')
+    assert.equal(limited.payload.messageType, 'ping')
+    assert.ok(limited.payload.retryAfterMs > 0)
+
+    const first = await TestClient.session(BRIDGE_PORT, 'user-1')
+    const second = await TestClient.session(BRIDGE_PORT, 'user-1')
+    for (const client of [first, second]) {
+      for (let i = 0; i < 3; i++) {
+        await client.request('ping', {}, 'pong')
+      }
+    }
+    const userLimited = await first.request('ping', {}, 'rateLimited')
+    assert.equal(userLimited.payload.scope, 'user')
+
+    await Promise.all([anonymous.close(), first.close(), second.close()])
+  })
+})
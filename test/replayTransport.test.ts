@@ -0,0 +1,81 @@
+import { describe, it, before, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { resolve } from 'path'
+import { MessageHandler } from '../src/ctrader/MessageHandler'
+import { ProtoOAClient } from '../src/ctrader/ProtoOAClient'
+import { ReplayTransport } from '../src/ctrader/transport/ReplayTransport'
+import { readRecording } from '../src/ctrader/transport/SessionRecorder'
+import { RecordedFrame, UserCredentials } from '../src/types'
+import { waitFor } from './helpers'
+
+// Recorded against the mock server: connect, authorize account 1001, buy 100000 of symbol 1 at market.
+const FIXTURE = resolve(__dirname, 'fixtures/market-order.jsonl')
+
+const credentials: UserCredentials = {
+  userId: 'user-1',
+  accessToken: 'access-token',
+  clientId: 'client-id',
+  clientSecret: 'client-secret',
+  tokenExpiresAt: new Date(Date.now() + 3600000),
+}
+
+describe('ReplayTransport', () => {
+  const messageHandler = new MessageHandler()
+  let frames: RecordedFrame[]
+  let client: ProtoOAClient | null = null
+
+  before(async () => {
+    await messageHandler.initialize()
+    frames = await readRecording(FIXTURE)
+  })
+
+  afterEach(() => {
+    client?.disconnect()
+    client = null
+  })
+
+  async function replay(): Promise<{ client: ProtoOAClient; transport: ReplayTransport }> {
+    const transport = new ReplayTransport(messageHandler, frames)
+    client = new ProtoOAClient(messageHandler, credentials, '1001', { createTransport: () => transport })
+    await client.connect()
+    await waitFor(() => client!.isAuthenticated())
+    return { client, transport }
+  }
+
+  it('replays a recorded market order and correlates the fill with the new request', async () => {
+    const { client, transport } = await replay()
+
+    const result = await client.sendOrder({
+      symbolId: 1,
+      orderType: 1,
+      tradeSide: 1,
+      volume: 100000,
+      comment: 'replay fixture',
+      clientOrderId: 'fixture-order-1',
+    })
+
+    assert.equal(result.status, 'filled')
+    assert.equal(result.orderId, '100001')
+    assert.equal(result.positionId, '100002')
+    await transport.finished()
+    assert.deepEqual(transport.divergences, [])
+  })
+
+  it('rejects finished() when the client sends something the recording does not expect', async () => {
+    const { client, transport } = await replay()
+
+    const pending = client.closePosition('100002', 100000)
+    await assert.rejects(transport.finished(), /Replay diverged: sent PROTO_OA_CLOSE_POSITION_REQ, expected PROTO_OA_NEW_ORDER_REQ/)
+    assert.equal(transport.divergences.length, 1)
+
+    client.disconnect()
+    await assert.rejects(pending, /Connection to cTrader lost/)
+  })
+
+  it('rejects finished() when the session closes before the recording ends', async () => {
+    const { client, transport } = await replay()
+
+    client.disconnect()
+    await assert.rejects(transport.finished(), /Replay closed at frame/)
+  })
+})
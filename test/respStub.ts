@@ -0,0 +1,144 @@
+import { createServer, Server, Socket } from 'net'
+
+type Reply = string | number | null | Error | Reply[]
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return '$-1\r\n'
+  if (reply instanceof Error) return `-${reply.message}\r\n`
+  if (typeof reply === 'number') return `:${reply}\r\n`
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`
+}
+
+/** Parses one command sent as a RESP array of bulk strings, or returns null until it has fully arrived. */
+function parseCommand(buffer: Buffer): { args: string[]; length: number } | null {
+  let offset = 0
+  const readLine = () => {
+    const end = buffer.indexOf('\r\n', offset)
+    if (end === -1) return null
+    const line = buffer.toString('utf8', offset, end)
+    offset = end + 2
+    return line
+  }
+
+  const header = readLine()
+  if (header === null) return null
+
+  const args: string[] = []
+  for (let i = 0; i < Number(header.slice(1)); i++) {
+    const lengthLine = readLine()
+    if (lengthLine === null) return null
+
+    const length = Number(lengthLine.slice(1))
+    if (buffer.length < offset + length + 2) return null
+    args.push(buffer.toString('utf8', offset, offset + length))
+    offset += length + 2
+  }
+
+  return { args, length: offset }
+}
+
+/**
+ * Speaks just enough of the Redis protocol for RedisBackplane: pub/sub, GET and the two ownership scripts,
+ * told apart by whether they SET the key.
+ */
+export class RespStub {
+  private server: Server = createServer(socket => this.accept(socket))
+  private sockets: Set<Socket> = new Set()
+  private subscriptions: Map<string, Set<Socket>> = new Map()
+  private keys: Map<string, { value: string; expiresAt: number }> = new Map()
+
+  get url(): string {
+    const address = this.server.address()
+    return `redis://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve))
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy())
+    await new Promise<void>(resolve => this.server.close(() => resolve()))
+  }
+
+  /** Writes raw bytes to every open connection, e.g. to inject a malformed reply. */
+  broadcastRaw(data: string): void {
+    this.sockets.forEach(socket => socket.write(data))
+  }
+
+  connectionCount(): number {
+    return this.sockets.size
+  }
+
+  private accept(socket: Socket): void {
+    let buffer = Buffer.alloc(0)
+    this.sockets.add(socket)
+
+    socket.on('data', (data: Buffer) => {
+      buffer = Buffer.concat([buffer, data])
+      let command = parseCommand(buffer)
+      while (command) {
+        buffer = buffer.subarray(command.length)
+        socket.write(encodeReply(this.execute(socket, command.args)))
+        command = parseCommand(buffer)
+      }
+    })
+    socket.on('close', () => {
+      this.sockets.delete(socket)
+      this.subscriptions.forEach(subscribers => subscribers.delete(socket))
+    })
+    socket.on('error', () => undefined)
+  }
+
+  private execute(socket: Socket, [name, ...args]: string[]): Reply {
+    switch (name.toUpperCase()) {
+      case 'PUBLISH': {
+        const subscribers = this.subscriptions.get(args[0]) || new Set()
+        subscribers.forEach(subscriber => subscriber.write(encodeReply(['message', args[0], args[1]])))
+        return subscribers.size
+      }
+      case 'SUBSCRIBE': {
+        const subscribers = this.subscriptions.get(args[0]) || new Set()
+        subscribers.add(socket)
+        this.subscriptions.set(args[0], subscribers)
+        return ['subscribe', args[0], 1]
+      }
+      case 'UNSUBSCRIBE':
+        this.subscriptions.get(args[0])?.delete(socket)
+        return ['unsubscribe', args[0], 0]
+      case 'GET':
+        return this.read(args[0])
+      case 'EVAL': {
+        const [script, , key, owner, ttlMs] = args
+        const current = this.read(key)
+        if (script.includes("'SET'")) {
+          if (current === null || current === owner) {
+            this.keys.set(key, { value: owner, expiresAt: Date.now() + Number(ttlMs) })
+            return owner
+          }
+          return current
+        }
+        if (current === owner) {
+          this.keys.delete(key)
+          return 1
+        }
+        return 0
+      }
+      case 'QUIT':
+        setImmediate(() => socket.end())
+        return 'OK'
+      default:
+        return new Error(`ERR unknown command '${name}'`)
+    }
+  }
+
+  private read(key: string): string | null {
+    const entry = this.keys.get(key)
+    if (!entry || entry.expiresAt <= Date.now()) {
+      this.keys.delete(key)
+      return null
+    }
+    return entry.value
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15340
+const MOCK_PORT = 15341
+
+describe('session resume', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 50 })
+  let bridge: TestBridge
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 5000
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  it('resumes a dropped session with its subscriptions and replays the events it missed', async () => {
+    const dropped = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    const { clientId } = (await dropped.next('connected')).payload
+    const { resumeToken } = (await dropped.next('authenticated')).payload
+    await dropped.request('subscribe', { symbolIds: [1] }, 'subscribed')
+
+    dropped.ws.terminate()
+    await dropped.closed
+
+    const other = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    await other.request('order', { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }, 'orderResult')
+    await other.close()
+
+    const resumed = await TestClient.open(BRIDGE_PORT)
+    const reply = await resumed.request('resume', { resumeToken }, 'resumed')
+    assert.equal(reply.payload.clientId, clientId)
+    assert.equal(reply.payload.userId, 'user-1')
+    assert.deepEqual(reply.payload.accounts, [{ accountId: '1001', symbolIds: [1] }])
+    assert.notEqual(reply.payload.resumeToken, resumeToken)
+    assert.ok(reply.payload.replayed > 0)
+
+    await resumed.next('executionEvent')
+    await resumed.next('spotEvent', message => message.payload.symbolId === '1')
+    assert.equal((await resumed.request('getPositions', {}, 'positionUpdate')).payload.length, 1)
+
+    const reused = await TestClient.open(BRIDGE_PORT)
+    const rejected = await reused.request('resume', { resumeToken }, 'error')
+    assert.equal(rejected.payload.code, 'INVALID_RESUME_TOKEN')
+
+    await Promise.all([resumed.close(), reused.close()])
+  })
+
+  it('rejects unknown resume tokens', async () => {
+    const client = await TestClient.open(BRIDGE_PORT)
+    const reply = await client.request('resume', { resumeToken: 'unknown' }, 'error')
+    assert.equal(reply.payload.code, 'INVALID_RESUME_TOKEN')
+    assert.equal(reply.payload.field, 'payload.resumeToken')
+    await client.close()
+  })
+})
@@ -0,0 +1,148 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { RiskEngine, RiskRejectedError } from '../src/risk/RiskEngine'
+import { SupabaseClient } from '../src/supabase/SupabaseClient'
+import { SessionClient } from '../src/ctrader/RemoteSessionClient'
+import { OrderPayload, RiskLimits } from '../src/types'
+
+function engineWith(getRiskLimits: () => Promise<Partial<RiskLimits> | null>): RiskEngine {
+  return new RiskEngine({ getRiskLimits } as unknown as SupabaseClient)
+}
+
+describe('RiskEngine.getLimits', () => {
+  it('rejects when limits cannot be loaded and nothing is cached', async () => {
+    const engine = engineWith(async () => {
+      throw new Error('Supabase unavailable')
+    })
+
+    await assert.rejects(engine.getLimits('user-1'), (error: unknown) => {
+      assert.ok(error instanceof RiskRejectedError)
+      assert.deepEqual(error.violations.map(violation => violation.rule), ['limitsUnavailable'])
+      return true
+    })
+  })
+
+  it('falls back to recently cached limits while Supabase is down', async () => {
+    let available = true
+    const engine = engineWith(async () => {
+      if (!available) throw new Error('Supabase unavailable')
+      return { maxOrderVolume: 500 }
+    })
+
+    const originalTtl = config.risk.limitsCacheTtlMs
+    config.risk.limitsCacheTtlMs = 0
+    try {
+      await engine.getLimits('user-1')
+      available = false
+      assert.equal((await engine.getLimits('user-1')).maxOrderVolume, 500)
+    } finally {
+      config.risk.limitsCacheTtlMs = originalTtl
+    }
+  })
+
+  it('rejects once cached limits are older than the stale window', async () => {
+    let available = true
+    const engine = engineWith(async () => {
+      if (!available) throw new Error('Supabase unavailable')
+      return { maxOrderVolume: 500 }
+    })
+
+    const { limitsCacheTtlMs, limitsMaxStaleMs } = config.risk
+    config.risk.limitsCacheTtlMs = 0
+    config.risk.limitsMaxStaleMs = 0
+    try {
+      await engine.getLimits('user-1')
+      available = false
+      await assert.rejects(engine.getLimits('user-1'), RiskRejectedError)
+    } finally {
+      Object.assign(config.risk, { limitsCacheTtlMs, limitsMaxStaleMs })
+    }
+  })
+})
+
+describe('RiskEngine.checkOrder', () => {
+  const order: OrderPayload = { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }
+  const noLimits: RiskLimits = {
+    maxOrderVolume: 0,
+    maxOpenPositions: 0,
+    allowedSymbols: [],
+    deniedSymbols: [],
+    maxDailyLoss: 0,
+    requireStopLoss: false,
+  }
+
+  function accountWith(openPositions: number, realizedPnl: number): SessionClient {
+    return {
+      reconcile: async () => ({ positions: new Array(openPositions).fill({}), orders: [] }),
+      getRealizedPnl: async () => realizedPnl,
+    } as unknown as SessionClient
+  }
+
+  async function violatedRules(
+    limits: Partial<RiskLimits>,
+    request: OrderPayload = order,
+    client: SessionClient = accountWith(0, 0)
+  ): Promise<string[]> {
+    const engine = engineWith(async () => ({ ...noLimits, ...limits }))
+    try {
+      await engine.checkOrder('user-1', request, client)
+      return []
+    } catch (error) {
+      assert.ok(error instanceof RiskRejectedError)
+      return error.violations.map(violation => violation.rule)
+    }
+  }
+
+  it('caps the order volume', async () => {
+    assert.deepEqual(await violatedRules({ maxOrderVolume: 100000 }), [])
+    assert.deepEqual(await violatedRules({ maxOrderVolume: 99999 }), ['maxOrderVolume'])
+  })
+
+  it('only trades symbols on the allowed list and off the denied list', async () => {
+    assert.deepEqual(await violatedRules({ allowedSymbols: [1, 2] }), [])
+    assert.deepEqual(await violatedRules({ allowedSymbols: [2] }), ['symbolNotAllowed'])
+    assert.deepEqual(await violatedRules({ deniedSymbols: [2] }), [])
+    assert.deepEqual(await violatedRules({ deniedSymbols: [1] }), ['symbolDenied'])
+  })
+
+  it('accepts an absolute or relative stop loss when one is required', async () => {
+    assert.deepEqual(await violatedRules({ requireStopLoss: true }), ['stopLossRequired'])
+    assert.deepEqual(await violatedRules({ requireStopLoss: true }, { ...order, relativeStopLoss: 1000 }), [])
+    assert.deepEqual(await violatedRules({ requireStopLoss: true }, { ...order, orderType: 2, stopLoss: 1.04 }), [])
+  })
+
+  it('stops opening positions once the account holds the maximum', async () => {
+    assert.deepEqual(await violatedRules({ maxOpenPositions: 3 }, order, accountWith(2, 0)), [])
+    assert.deepEqual(await violatedRules({ maxOpenPositions: 3 }, order, accountWith(3, 0)), ['maxOpenPositions'])
+  })
+
+  it('stops trading once the realized loss of the day reaches the limit', async () => {
+    assert.deepEqual(await violatedRules({ maxDailyLoss: 500 }, order, accountWith(0, -499)), [])
+    assert.deepEqual(await violatedRules({ maxDailyLoss: 500 }, order, accountWith(0, -500)), ['maxDailyLoss'])
+  })
+
+  it('reports every rule an order breaks', async () => {
+    const rules = await violatedRules({ maxOrderVolume: 1000, deniedSymbols: [1], requireStopLoss: true })
+    assert.deepEqual(rules, ['maxOrderVolume', 'symbolDenied', 'stopLossRequired'])
+  })
+})
+
+describe('RiskEngine.checkAmendment', () => {
+  it('applies the volume cap and stop loss requirement to amendments', async () => {
+    const engine = engineWith(async () => ({ maxOrderVolume: 100000, requireStopLoss: true }))
+
+    await engine.checkAmendment('user-1', { volume: 100000, stopLoss: 1.04 })
+    await engine.checkAmendment('user-1', { relativeStopLoss: 1000 })
+    await assert.rejects(engine.checkAmendment('user-1', { volume: 200000, stopLoss: 1.04 }), (error: unknown) => {
+      assert.ok(error instanceof RiskRejectedError)
+      assert.deepEqual(error.violations.map(violation => violation.rule), ['maxOrderVolume'])
+      return true
+    })
+    await assert.rejects(engine.checkAmendment('user-1', {}), (error: unknown) => {
+      assert.ok(error instanceof RiskRejectedError)
+      assert.deepEqual(error.violations.map(violation => violation.rule), ['stopLossRequired'])
+      return true
+    })
+  })
+})
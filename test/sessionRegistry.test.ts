@@ -0,0 +1,121 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { InMemoryBackplane, InMemoryHub } from '../src/backplane/InMemoryBackplane'
+import { MessageHandler } from '../src/ctrader/MessageHandler'
+import { UpstreamSession, UpstreamSessionRegistry } from '../src/ctrader/UpstreamSessionRegistry'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { UserCredentials } from '../src/types'
+import { waitFor } from './helpers'
+
+const MOCK_PORT = 15135
+
+const credentials: UserCredentials = {
+  userId: 'user-1',
+  accessToken: 'access-token',
+  clientId: 'client-id',
+  clientSecret: 'client-secret',
+  tokenExpiresAt: new Date(Date.now() + 3600000),
+}
+
+/** Drops everything this instance publishes, as if its process had stopped. */
+class PartitionableBackplane extends InMemoryBackplane {
+  partitioned = false
+
+  async publish(channel: string, message: string): Promise<void> {
+    if (!this.partitioned) {
+      await super.publish(channel, message)
+    }
+  }
+}
+
+describe('UpstreamSessionRegistry across instances', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 60000 })
+  const messageHandler = new MessageHandler()
+  let owner: UpstreamSessionRegistry
+  let remote: UpstreamSessionRegistry
+  let remoteBackplane: PartitionableBackplane
+
+  function createRegistry(instanceId: string, backplane: InMemoryBackplane): UpstreamSessionRegistry {
+    config.backplane.instanceId = instanceId
+    return new UpstreamSessionRegistry(messageHandler, backplane)
+  }
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.backplane.ownershipTtlMs = 300
+    await messageHandler.initialize()
+    await mock.start(MOCK_PORT)
+  })
+
+  after(async () => {
+    await mock.stop()
+  })
+
+  beforeEach(async () => {
+    const hub = new InMemoryHub()
+    remoteBackplane = new PartitionableBackplane(hub)
+    owner = createRegistry('owner', new InMemoryBackplane(hub))
+    remote = createRegistry('remote', remoteBackplane)
+    await Promise.all([owner.start(), remote.start()])
+  })
+
+  afterEach(async () => {
+    remoteBackplane.partitioned = false
+    await Promise.all([owner.stop(), remote.stop()])
+  })
+
+  async function attachBoth(): Promise<{ local: UpstreamSession; proxied: UpstreamSession }> {
+    const { session: local } = await owner.attach('client-a', credentials, '1001')
+    const { session: proxied } = await remote.attach('client-b', credentials, '1001')
+    assert.equal(local.remote, false)
+    assert.equal(proxied.remote, true)
+    return { local, proxied }
+  }
+
+  it('releases the spot subscriptions of a remote instance that detaches', async () => {
+    const { local, proxied } = await attachBoth()
+
+    local.client.subscribeSpots([1])
+    proxied.client.subscribeSpots([1, 2])
+    await waitFor(() => local.client.getSubscribedSymbols().length === 2)
+
+    remote.detach('client-b', proxied)
+    await waitFor(() => local.client.getSubscribedSymbols().length === 1)
+
+    assert.deepEqual(local.client.getSubscribedSymbols(), [1])
+    assert.equal(owner.get(credentials.userId, '1001'), local)
+  })
+
+  it('expires a remote instance that stops renewing and closes the unused session', async () => {
+    const { local, proxied } = await attachBoth()
+
+    proxied.client.subscribeSpots([2])
+    await waitFor(() => local.client.getSubscribedSymbols().length === 1)
+
+    let symbolsAtClose: number[] | null = null
+    owner.on('sessionClosed', session => {
+      symbolsAtClose = session.client.getSubscribedSymbols()
+    })
+
+    owner.detach('client-a', local)
+    assert.equal(owner.get(credentials.userId, '1001'), local)
+
+    remoteBackplane.partitioned = true
+    await waitFor(() => symbolsAtClose !== null, 3000)
+
+    assert.deepEqual(symbolsAtClose, [])
+    assert.equal(owner.get(credentials.userId, '1001'), undefined)
+  })
+
+  it('keeps a renewing remote instance attached past the ownership TTL', async () => {
+    const { local, proxied } = await attachBoth()
+
+    proxied.client.subscribeSpots([2])
+    owner.detach('client-a', local)
+    await new Promise(resolve => setTimeout(resolve, 1000))
+
+    assert.equal(owner.get(credentials.userId, '1001'), local)
+    assert.deepEqual(local.client.getSubscribedSymbols(), [2])
+  })
+})
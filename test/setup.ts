@@ -0,0 +1,15 @@
+// Loaded before every test file so config can be read without a .env file.
+const defaults: Record<string, string> = {
+  NODE_ENV: 'test',
+  LOG_LEVEL: 'silent',
+  SUPABASE_URL: 'http://127.0.0.1:54321',
+  SUPABASE_SERVICE_ROLE_KEY: 'test-service-role-key',
+  API_KEY: 'test-api-key-0123456789abcdef0123456789',
+  CTRADER_API_HOST: '127.0.0.1',
+  CTRADER_USE_TLS: 'false',
+  MAX_RECONNECT_ATTEMPTS: '0',
+}
+
+for (const [key, value] of Object.entries(defaults)) {
+  process.env[key] = process.env[key] ?? value
+}
@@ -0,0 +1,71 @@
+import { describe, it, before, after, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+import { waitFor } from './helpers'
+
+const BRIDGE_PORT = 15310
+const MOCK_PORT = 15311
+
+describe('spot subscriptions', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 50 })
+  let bridge: TestBridge
+  let clients: TestClient[] = []
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()))
+    clients = []
+  })
+
+  async function session(): Promise<TestClient> {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    clients.push(client)
+    return client
+  }
+
+  const spotsFor = (client: TestClient, symbolId: string) =>
+    client.all('spotEvent').filter(message => message.payload.symbolId === symbolId).length
+
+  it('streams spots for subscribed symbols and stops after unsubscribe', async () => {
+    const client = await session()
+
+    const subscribed = await client.request('subscribe', { symbolIds: [1] }, 'subscribed')
+    assert.deepEqual(subscribed.payload, { symbolIds: [1] })
+    await client.next('spotEvent', message => message.payload.symbolId === '1')
+    assert.equal(spotsFor(client, '2'), 0)
+
+    const unsubscribed = await client.request('unsubscribe', { symbolIds: [1] }, 'unsubscribed')
+    assert.deepEqual(unsubscribed.payload, { symbolIds: [] })
+
+    await new Promise(resolve => setTimeout(resolve, 100))
+    const received = spotsFor(client, '1')
+    await new Promise(resolve => setTimeout(resolve, 200))
+    assert.equal(spotsFor(client, '1'), received)
+  })
+
+  it('keeps the upstream subscription while another client on the account still needs it', async () => {
+    const first = await session()
+    const second = await session()
+
+    await first.request('subscribe', { symbolIds: [2] }, 'subscribed')
+    await second.request('subscribe', { symbolIds: [2] }, 'subscribed')
+    await first.request('unsubscribe', { symbolIds: [2] }, 'unsubscribed')
+
+    const received = spotsFor(second, '2')
+    await waitFor(() => spotsFor(second, '2') >= received + 2)
+  })
+})
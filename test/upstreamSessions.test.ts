@@ -0,0 +1,116 @@
+import { describe, it, before, after, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { config } from '../src/config'
+import { InMemoryBackplane, InMemoryHub } from '../src/backplane/InMemoryBackplane'
+import { MockCTraderServer } from '../src/mock/MockCTraderServer'
+import { credentialsFor, startBridge, TestBridge, TestClient } from './bridge'
+import { waitFor } from './helpers'
+
+const BRIDGE_PORT = 15330
+const MOCK_PORT = 15331
+const OWNER_PORT = 15332
+const STANDBY_PORT = 15333
+
+const marketOrder = { symbolId: 1, orderType: 1, tradeSide: 1, volume: 100000 }
+
+describe('shared upstream sessions', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 60000 })
+  let bridge: TestBridge
+  let clients: TestClient[] = []
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    await mock.start(MOCK_PORT)
+    bridge = await startBridge(BRIDGE_PORT)
+    bridge.supabase.credentials.set('user-1', credentialsFor('user-1'))
+  })
+
+  after(async () => {
+    await bridge.server.stop()
+    await mock.stop()
+  })
+
+  beforeEach(() => {
+    mock.reset()
+  })
+
+  afterEach(async () => {
+    await Promise.all(clients.map(client => client.close()))
+    clients = []
+    await waitFor(() => mock.getConnectionCount() === 0)
+  })
+
+  async function session(): Promise<TestClient> {
+    const client = await TestClient.session(BRIDGE_PORT, 'user-1', ['1001'])
+    clients.push(client)
+    return client
+  }
+
+  it('serves every client of an account from one cTrader connection', async () => {
+    await session()
+    await session()
+
+    assert.equal(mock.getConnectionCount(), 1)
+  })
+
+  it('opens a new upstream session once the old one gives up reconnecting', async () => {
+    const first = await session()
+    const second = await session()
+
+    mock.dropConnections()
+    for (const client of [first, second]) {
+      await client.next('disconnected', message => message.payload.reason === 'Connection to cTrader lost')
+    }
+
+    const reconnected = await first.request('connect', { accountId: '1001' }, 'accountUpdate')
+    assert.equal(reconnected.accountId, '1001')
+    assert.equal((await first.request('order', marketOrder, 'orderResult')).payload.status, 'filled')
+
+    await second.request('connect', { accountId: '1001' }, 'accountUpdate')
+    assert.equal(mock.getConnectionCount(), 1)
+  })
+})
+
+describe('upstream session ownership handover', () => {
+  const mock = new MockCTraderServer({ tickIntervalMs: 60000 })
+
+  before(async () => {
+    config.ctrader.apiPort = MOCK_PORT
+    config.connection.resumeGracePeriodMs = 0
+    await mock.start(MOCK_PORT)
+  })
+
+  after(async () => {
+    await mock.stop()
+  })
+
+  it('lets clients of another instance reconnect after the owning instance stops', async () => {
+    const hub = new InMemoryHub()
+    config.backplane.instanceId = 'owner'
+    const owner = await startBridge(OWNER_PORT, { backplane: new InMemoryBackplane(hub) })
+    config.backplane.instanceId = 'standby'
+    const standby = await startBridge(STANDBY_PORT, { backplane: new InMemoryBackplane(hub), supabase: owner.supabase })
+    owner.supabase.credentials.set('user-1', credentialsFor('user-1'))
+
+    const ownerClient = await TestClient.session(OWNER_PORT, 'user-1', ['1001'])
+    const standbyClient = await TestClient.session(STANDBY_PORT, 'user-1', ['1001'])
+    assert.equal(mock.getConnectionCount(), 1)
+
+    try {
+      await owner.server.stop()
+      await ownerClient.closed
+
+      const disconnected = await standbyClient.next('disconnected')
+      assert.equal(disconnected.payload.reason, 'Upstream session closed by owner')
+      await waitFor(() => mock.getConnectionCount() === 0)
+
+      await standbyClient.request('connect', { accountId: '1001' }, 'accountUpdate')
+      assert.equal((await standbyClient.request('order', marketOrder, 'orderResult')).payload.status, 'filled')
+      assert.equal(mock.getConnectionCount(), 1)
+    } finally {
+      await standbyClient.close()
+      await standby.server.stop()
+    }
+  })
+})
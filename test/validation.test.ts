@@ -0,0 +1,103 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseClientMessage, ValidationError } from '../src/websocket/validation'
+import { startBridge, TestBridge, TestClient } from './bridge'
+
+const BRIDGE_PORT = 15390
+
+function rejectionOf(data: unknown): ValidationError {
+  try {
+    parseClientMessage(data)
+  } catch (error) {
+    assert.ok(error instanceof ValidationError)
+    return error
+  }
+  return assert.fail('expected a validation error')
+}
+
+const order = { symbolId: 1, tradeSide: 1, volume: 100000 }
+
+describe('order validation', () => {
+  it('requires the prices each order type is placed at', () => {
+    assert.equal(rejectionOf({ type: 'order', payload: { ...order, orderType: 2 } }).field, 'payload.limitPrice')
+    assert.equal(rejectionOf({ type: 'order', payload: { ...order, orderType: 3 } }).field, 'payload.stopPrice')
+    assert.equal(
+      rejectionOf({ type: 'order', payload: { ...order, orderType: 6, stopPrice: 1.1 } }).field,
+      'payload.slippageInPoints'
+    )
+
+    const parsed = parseClientMessage({ type: 'order', payload: { ...order, orderType: 2, limitPrice: 1.05 } })
+    assert.deepEqual(parsed.payload, { ...order, orderType: 2, limitPrice: 1.05 })
+  })
+
+  it('rejects prices that do not apply to the order type', () => {
+    const rejection = rejectionOf({ type: 'order', payload: { ...order, orderType: 1, limitPrice: 1.05 } })
+    assert.equal(rejection.code, 'VALIDATION_FAILED')
+    assert.equal(rejection.field, 'payload.limitPrice')
+  })
+
+  it('only takes relative stops on market orders', () => {
+    assert.equal(rejectionOf({ type: 'order', payload: { ...order, orderType: 1, stopLoss: 1.04 } }).field, 'payload.stopLoss')
+    assert.equal(
+      rejectionOf({ type: 'order', payload: { ...order, orderType: 2, limitPrice: 1.05, stopLoss: 1.04, relativeStopLoss: 1000 } })
+        .field,
+      'payload.relativeStopLoss'
+    )
+
+    const parsed = parseClientMessage({ type: 'order', payload: { ...order, orderType: 1, relativeStopLoss: 1000 } })
+    assert.equal((parsed.payload as { relativeStopLoss?: number }).relativeStopLoss, 1000)
+  })
+
+  it('only accepts order types that can be placed directly', () => {
+    assert.equal(rejectionOf({ type: 'order', payload: { ...order, orderType: 4 } }).field, 'payload.orderType')
+  })
+})
+
+describe('amend validation', () => {
+  it('requires at least one field to change', () => {
+    const position = rejectionOf({ type: 'amendPosition', payload: { positionId: '5' } })
+    assert.equal(position.code, 'VALIDATION_FAILED')
+    assert.equal(position.field, 'payload')
+    assert.equal(rejectionOf({ type: 'amendOrder', payload: { orderId: '7' } }).field, 'payload')
+
+    assert.deepEqual(parseClientMessage({ type: 'amendPosition', payload: { positionId: '5', stopLoss: 1.02 } }).payload, {
+      positionId: '5',
+      stopLoss: 1.02,
+    })
+    assert.deepEqual(parseClientMessage({ type: 'amendOrder', payload: { orderId: '7', volume: 200000 } }).payload, {
+      orderId: '7',
+      volume: 200000,
+    })
+  })
+})
+
+describe('message validation on the server', () => {
+  let bridge: TestBridge
+  let client: TestClient
+
+  before(async () => {
+    bridge = await startBridge(BRIDGE_PORT)
+    client = await TestClient.open(BRIDGE_PORT)
+  })
+
+  after(async () => {
+    await client.close()
+    await bridge.server.stop()
+  })
+
+  it('answers invalid messages with a machine-readable error for the request', async () => {
+    const invalid = await client.request('subscribe', { symbolIds: [1, -2] }, 'error')
+    assert.equal(invalid.payload.code, 'VALIDATION_FAILED')
+    assert.equal(invalid.payload.field, 'payload.symbolIds[1]')
+
+    const unknown = await client.request('teleport', {}, 'error')
+    assert.equal(unknown.payload.code, 'UNKNOWN_MESSAGE_TYPE')
+    assert.equal(unknown.payload.field, 'type')
+
+    client.ws.send('{not json')
+    const malformed = await client.next('error', message => message.payload.code === 'INVALID_MESSAGE')
+    assert.equal(malformed.requestId, undefined)
+
+    await client.request('ping', {}, 'pong')
+  })
+})